@@ -0,0 +1,386 @@
+import { DataType } from '../src/types';
+
+/**
+ * --- FORMULA LANGUAGE ---
+ * Expressions for computed columns (FORMULA strategy), for example:
+ *   quantity * unitPrice
+ *   first + ' ' + last
+ *   created + 30d
+ *   if(status = 'Closed', daysBetween(created, closedDate), null)
+ * Column references are plain names, `Table.column` for a linked parent, or `back-quoted` when a
+ * name holds other characters. Formulas are parsed into a tree and interpreted: nothing reaches
+ * eval, so a formula can only read the columns it names and call the functions in FUNCTIONS.
+ */
+
+export type FormulaValue = number | string | boolean | Date | null;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+export type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'ref'; name: string }
+  | { kind: 'unary'; op: '-' | '!'; operand: FormulaNode }
+  | { kind: 'binary'; op: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+export interface FormulaContext {
+  resolve: (name: string) => FormulaValue; // Value of a referenced column in the current row
+  now: number; // today() as epoch ms
+  formatDate: (date: Date, format?: string) => string; // Default format = the export's date format
+}
+
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'op' | 'paren' | 'comma' | 'end';
+  text: string;
+  value?: number | string;
+  pos: number;
+}
+
+const DAY_MS = 86400000;
+const DURATION_UNITS: Record<string, number> = { h: 1 / 24, d: 1, w: 7 }; // Literal suffix -> days
+const OPERATORS = ['==', '!=', '<>', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '=', '<', '>', '!'];
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    const start = i;
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      while (i < source.length && /[0-9.]/.test(source[i])) i++;
+      const num = Number(source.slice(start, i));
+      if (isNaN(num)) throw new Error(`Invalid number "${source.slice(start, i)}" at character ${start + 1}`);
+      // Duration literals (30d, 2w, 12h) are numbers of days
+      const unit = (source[i] || '').toLowerCase();
+      if (unit && unit in DURATION_UNITS && !/[\w]/.test(source[i + 1] || '')) {
+        i++;
+        tokens.push({ type: 'number', text: source.slice(start, i), value: num * DURATION_UNITS[unit], pos: start });
+      } else {
+        tokens.push({ type: 'number', text: source.slice(start, i), value: num, pos: start });
+      }
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let text = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        text += source[i++];
+      }
+      if (i >= source.length) throw new Error(`Unclosed ${ch === '`' ? 'column name' : 'text'} starting at character ${start + 1}`);
+      i++;
+      tokens.push({ type: ch === '`' ? 'ident' : 'string', text: source.slice(start, i), value: text, pos: start });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      while (i < source.length && /[\w.]/.test(source[i])) i++;
+      const word = source.slice(start, i);
+      const op = WORD_OPERATORS[word.toLowerCase()];
+      tokens.push(op ? { type: 'op', text: op, pos: start } : { type: 'ident', text: word, value: word, pos: start });
+      continue;
+    }
+    if (ch === '(' || ch === ')') { tokens.push({ type: 'paren', text: ch, pos: i++ }); continue; }
+    if (ch === ',') { tokens.push({ type: 'comma', text: ch, pos: i++ }); continue; }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected "${ch}" at character ${start + 1}`);
+    i += op.length;
+    tokens.push({ type: 'op', text: op === '==' ? '=' : op === '<>' ? '!=' : op, pos: start });
+  }
+  tokens.push({ type: 'end', text: 'end of formula', pos: source.length });
+  return tokens;
+};
+
+// --- VALUE CONVERSIONS ---
+
+const toNumber = (v: FormulaValue): number | null => {
+  if (typeof v === 'number') return isFinite(v) ? v : null;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  if (typeof v === 'string' && v.trim() !== '' && !isNaN(Number(v))) return Number(v);
+  return null;
+};
+
+const toDate = (v: FormulaValue): Date | null => {
+  if (v instanceof Date) return v;
+  if (typeof v === 'string' && v.trim() !== '') {
+    const d = new Date(v);
+    return isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+};
+
+const isEmptyValue = (v: FormulaValue): boolean => v === null || v === '';
+
+const isTruthy = (v: FormulaValue): boolean => {
+  if (typeof v === 'boolean') return v;
+  if (typeof v === 'number') return v !== 0;
+  if (typeof v === 'string') return v !== '' && v.toLowerCase() !== 'false';
+  return v !== null;
+};
+
+// Numbers lose floating-point noise (0.1 + 0.2 -> 0.3); dates use the export's date format.
+export const formulaToText = (v: FormulaValue, ctx: FormulaContext): string => {
+  if (v === null) return '';
+  if (v instanceof Date) return ctx.formatDate(v);
+  if (typeof v === 'number') return String(Number(v.toFixed(10)));
+  return String(v);
+};
+
+// Typed value of a stored cell: dates and numbers by column type, empty and NULL cells as null.
+export const toFormulaValue = (raw: string | undefined, type?: DataType): FormulaValue => {
+  if (raw === undefined || raw === '' || raw === 'NULL') return null;
+  if (type === DataType.DATE) return toDate(raw) || raw;
+  if (type === DataType.INTEGER || type === DataType.REAL || type === DataType.DURATION) return toNumber(raw) ?? raw;
+  return raw;
+};
+
+const compareValues = (l: FormulaValue, r: FormulaValue, ctx: FormulaContext): number => {
+  if (l instanceof Date || r instanceof Date) {
+    const a = toDate(l);
+    const b = toDate(r);
+    if (a && b) return a.getTime() - b.getTime();
+  }
+  // CSV cells are text, so "10" and "9" still compare as numbers
+  const a = toNumber(l);
+  const b = toNumber(r);
+  if (a !== null && b !== null) return a - b;
+  const x = formulaToText(l, ctx);
+  const y = formulaToText(r, ctx);
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+// --- FUNCTIONS ---
+
+interface FormulaFunction {
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic functions
+  call: (args: FormulaValue[], ctx: FormulaContext) => FormulaValue;
+}
+
+const numeric = (fn: (...nums: number[]) => number) => (args: FormulaValue[]): FormulaValue => {
+  const nums = args.map(toNumber);
+  return nums.some(n => n === null) ? null : fn(...(nums as number[]));
+};
+const textual = (fn: (s: string, ...rest: FormulaValue[]) => FormulaValue) => (args: FormulaValue[], ctx: FormulaContext): FormulaValue =>
+  isEmptyValue(args[0]) ? null : fn(formulaToText(args[0], ctx), ...args.slice(1));
+const dated = (fn: (d: Date, ...rest: FormulaValue[]) => FormulaValue) => (args: FormulaValue[]): FormulaValue => {
+  const d = toDate(args[0]);
+  return d ? fn(d, ...args.slice(1)) : null;
+};
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // Conditional
+  if: { minArgs: 2, maxArgs: 3, call: ([cond, then, otherwise]) => isTruthy(cond) ? then : (otherwise ?? null) },
+  coalesce: { minArgs: 1, maxArgs: Infinity, call: args => args.find(a => !isEmptyValue(a)) ?? null },
+  isEmpty: { minArgs: 1, maxArgs: 1, call: ([v]) => isEmptyValue(v) },
+  // Arithmetic
+  round: { minArgs: 1, maxArgs: 2, call: numeric((n, digits = 0) => Math.round(n * Math.pow(10, digits)) / Math.pow(10, digits)) },
+  floor: { minArgs: 1, maxArgs: 1, call: numeric(Math.floor) },
+  ceil: { minArgs: 1, maxArgs: 1, call: numeric(Math.ceil) },
+  abs: { minArgs: 1, maxArgs: 1, call: numeric(Math.abs) },
+  pow: { minArgs: 2, maxArgs: 2, call: numeric(Math.pow) },
+  min: { minArgs: 1, maxArgs: Infinity, call: numeric(Math.min) },
+  max: { minArgs: 1, maxArgs: Infinity, call: numeric(Math.max) },
+  number: { minArgs: 1, maxArgs: 1, call: ([v]) => toNumber(v) },
+  // Text
+  text: { minArgs: 1, maxArgs: 1, call: ([v], ctx) => isEmptyValue(v) ? null : formulaToText(v, ctx) },
+  concat: { minArgs: 1, maxArgs: Infinity, call: (args, ctx) => args.map(a => formulaToText(a, ctx)).join('') },
+  upper: { minArgs: 1, maxArgs: 1, call: textual(s => s.toUpperCase()) },
+  lower: { minArgs: 1, maxArgs: 1, call: textual(s => s.toLowerCase()) },
+  trim: { minArgs: 1, maxArgs: 1, call: textual(s => s.trim()) },
+  len: { minArgs: 1, maxArgs: 1, call: ([v], ctx) => formulaToText(v, ctx).length },
+  left: { minArgs: 2, maxArgs: 2, call: textual((s, n) => s.slice(0, Math.max(0, toNumber(n) ?? 0))) },
+  right: { minArgs: 2, maxArgs: 2, call: textual((s, n) => s.slice(s.length - Math.max(0, toNumber(n) ?? 0))) },
+  mid: { minArgs: 2, maxArgs: 3, call: textual((s, start, count) => s.substr(Math.max(0, (toNumber(start) ?? 1) - 1), count === undefined ? undefined : (toNumber(count) ?? 0))) },
+  replace: { minArgs: 3, maxArgs: 3, call: (args, ctx) => isEmptyValue(args[0]) ? null : formulaToText(args[0], ctx).split(formulaToText(args[1], ctx)).join(formulaToText(args[2], ctx)) },
+  // Dates
+  today: { minArgs: 0, maxArgs: 0, call: (_, ctx) => new Date(ctx.now) },
+  date: { minArgs: 1, maxArgs: 1, call: ([v]) => toDate(v) },
+  addDays: { minArgs: 2, maxArgs: 2, call: dated((d, n) => toNumber(n) === null ? null : addDays(d, toNumber(n)!)) },
+  addMonths: { minArgs: 2, maxArgs: 2, call: dated((d, n) => {
+    const months = toNumber(n);
+    if (months === null) return null;
+    const result = new Date(d);
+    result.setMonth(result.getMonth() + months);
+    return result;
+  }) },
+  daysBetween: { minArgs: 2, maxArgs: 2, call: ([a, b]) => {
+    const from = toDate(a);
+    const to = toDate(b);
+    return from && to ? Math.round((to.getTime() - from.getTime()) / DAY_MS) : null;
+  } },
+  year: { minArgs: 1, maxArgs: 1, call: dated(d => d.getFullYear()) },
+  month: { minArgs: 1, maxArgs: 1, call: dated(d => d.getMonth() + 1) },
+  day: { minArgs: 1, maxArgs: 1, call: dated(d => d.getDate()) },
+  format: { minArgs: 1, maxArgs: 2, call: (args, ctx) => {
+    const d = toDate(args[0]);
+    return d ? ctx.formatDate(d, args[1] === undefined ? undefined : formulaToText(args[1], ctx)) : null;
+  } },
+};
+
+export const FORMULA_FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+// Function calls are matched case-insensitively.
+const FUNCTION_INDEX: Record<string, FormulaFunction> = Object.fromEntries(
+  Object.entries(FUNCTIONS).map(([name, fn]) => [name.toLowerCase(), fn])
+);
+
+// --- PARSER ---
+
+const BINARY_LEVELS: string[][] = [['||'], ['&&'], ['=', '!=', '<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+const KEYWORDS: Record<string, FormulaValue> = { true: true, false: false, null: null };
+
+const formulaCache = new Map<string, FormulaNode>();
+
+/**
+ * Parses a formula into its expression tree. Throws an Error naming the character position
+ * on syntax errors, unknown functions and wrong argument counts. Results are cached by source.
+ */
+export const parseFormula = (source: string): FormulaNode => {
+  const cached = formulaCache.get(source);
+  if (cached) return cached;
+
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const fail = (token: Token, message: string): never => {
+    throw new Error(`${message} at character ${token.pos + 1}`);
+  };
+  const expect = (text: string) => {
+    if (peek().text !== text) fail(peek(), `Expected "${text}" but found "${peek().text}"`);
+    pos++;
+  };
+
+  const parseLevel = (level: number): FormulaNode => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    while (peek().type === 'op' && BINARY_LEVELS[level].includes(peek().text)) {
+      const op = tokens[pos++].text as BinaryOperator;
+      left = { kind: 'binary', op, left, right: parseLevel(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (peek().type === 'op' && (peek().text === '-' || peek().text === '!')) {
+      const op = tokens[pos++].text as '-' | '!';
+      return { kind: 'unary', op, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[pos++];
+    if (token.type === 'number' || token.type === 'string') return { kind: 'literal', value: token.value! };
+    if (token.type === 'paren' && token.text === '(') {
+      const inner = parseLevel(0);
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'ident') {
+      const name = token.value as string;
+      const isQuoted = token.text.startsWith('`');
+      if (!isQuoted && peek().text === '(') {
+        const fn = FUNCTION_INDEX[name.toLowerCase()];
+        if (!fn) fail(token, `Unknown function "${name}"`);
+        pos++;
+        const args: FormulaNode[] = [];
+        if (peek().text !== ')') {
+          args.push(parseLevel(0));
+          while (peek().type === 'comma') {
+            pos++;
+            args.push(parseLevel(0));
+          }
+        }
+        expect(')');
+        if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+          const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+          fail(token, `${name}() takes ${expected} argument(s), got ${args.length}`);
+        }
+        return { kind: 'call', name: name.toLowerCase(), args };
+      }
+      if (!isQuoted && name.toLowerCase() in KEYWORDS) return { kind: 'literal', value: KEYWORDS[name.toLowerCase()] };
+      return { kind: 'ref', name };
+    }
+    return fail(token, token.type === 'end' ? 'Formula ends unexpectedly' : `Unexpected "${token.text}"`);
+  };
+
+  if (peek().type === 'end') fail(peek(), 'Formula is empty');
+  const tree = parseLevel(0);
+  if (peek().type !== 'end') fail(peek(), `Unexpected "${peek().text}"`);
+  formulaCache.set(source, tree);
+  return tree;
+};
+
+// Column names a formula reads, in order of appearance and without duplicates.
+export const getFormulaReferences = (node: FormulaNode): string[] => {
+  const names: string[] = [];
+  const walk = (n: FormulaNode) => {
+    if (n.kind === 'ref' && !names.includes(n.name)) names.push(n.name);
+    if (n.kind === 'unary') walk(n.operand);
+    if (n.kind === 'binary') { walk(n.left); walk(n.right); }
+    if (n.kind === 'call') n.args.forEach(walk);
+  };
+  walk(node);
+  return names;
+};
+
+// --- INTERPRETER ---
+
+/**
+ * Evaluates a parsed formula. Empty operands propagate (empty * 2 is empty) except in text
+ * concatenation; values that cannot be combined (text * 2, division by zero) give empty.
+ * Date + number adds days, date - date gives days.
+ */
+export const evaluateFormula = (node: FormulaNode, ctx: FormulaContext): FormulaValue => {
+  switch (node.kind) {
+    case 'literal': return node.value;
+    case 'ref': return ctx.resolve(node.name);
+    case 'call': return FUNCTION_INDEX[node.name].call(node.args.map(a => evaluateFormula(a, ctx)), ctx);
+    case 'unary': {
+      const v = evaluateFormula(node.operand, ctx);
+      if (node.op === '!') return !isTruthy(v);
+      const n = toNumber(v);
+      return n === null ? null : -n;
+    }
+    case 'binary': {
+      const l = evaluateFormula(node.left, ctx);
+      const r = evaluateFormula(node.right, ctx);
+      switch (node.op) {
+        case '&&': return isTruthy(l) && isTruthy(r);
+        case '||': return isTruthy(l) || isTruthy(r);
+        case '=': return compareValues(l, r, ctx) === 0;
+        case '!=': return compareValues(l, r, ctx) !== 0;
+        case '<': return !isEmptyValue(l) && !isEmptyValue(r) && compareValues(l, r, ctx) < 0;
+        case '<=': return !isEmptyValue(l) && !isEmptyValue(r) && compareValues(l, r, ctx) <= 0;
+        case '>': return !isEmptyValue(l) && !isEmptyValue(r) && compareValues(l, r, ctx) > 0;
+        case '>=': return !isEmptyValue(l) && !isEmptyValue(r) && compareValues(l, r, ctx) >= 0;
+        case '+':
+          if (typeof l === 'string' || typeof r === 'string') return formulaToText(l, ctx) + formulaToText(r, ctx);
+          if (l === null || r === null) return null;
+          if (l instanceof Date) return toNumber(r) === null ? null : addDays(l, toNumber(r)!);
+          if (r instanceof Date) return toNumber(l) === null ? null : addDays(r, toNumber(l)!);
+          return toNumber(l)! + toNumber(r)!;
+        case '-':
+          if (l instanceof Date && r instanceof Date) return (l.getTime() - r.getTime()) / DAY_MS;
+          if (l instanceof Date) return toNumber(r) === null ? null : addDays(l, -toNumber(r)!);
+          break;
+      }
+      const a = toNumber(l);
+      const b = toNumber(r);
+      if (a === null || b === null) return null;
+      switch (node.op) {
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? null : a / b;
+        case '%': return b === 0 ? null : a % b;
+      }
+      return null;
+    }
+  }
+};
@@ -8,9 +8,14 @@ import {
   Column, 
   ReferenceFile, 
   DateLogicConfig, 
-  LifecyclePolicy 
+  ColumnPredicate,
+  GenerationRule,
+  LifecyclePolicy,
+  GlobalSettings 
 } from '../src/types';
 import { generateSyntheticDataBatch } from './geminiService';
+import { parseFormula, evaluateFormula, getFormulaReferences, toFormulaValue, formulaToText, FormulaContext } from './formulaService';
+import { parseTemplate, getTemplateReferences, renderTemplate, TEMPLATE_SEQUENCE } from './templateService';
 
 /**
  * --- TYPES & INTERFACES ---
@@ -21,39 +26,137 @@ interface ThreadContext {
   registry: Record<string, number[]>; // Maps TableID -> Array of Row Indices generated in this thread
 }
 
+// State shared by every thread of a single export run.
+interface RunContext {
+  consumedRecords: Record<string, Set<number>>; // Maps ColumnID -> Source row indices already drawn (no replacement)
+  revisionCounters: Record<string, number>; // Maps ColumnID:GroupKey -> Next position in the revision schema
+  columnOrders: Record<string, Column[]>; // Maps TableID -> Column evaluation order within a row
+  quotaPools: Record<string, (string | null)[]>; // Maps ColumnID:Scope -> Pre-allocated values still to hand out (null = empty cell)
+  uniqueKeys: Record<string, Set<string>>; // Maps TableID:ColumnIDs -> Key values already emitted
+  linkPlans: Record<string, Record<string, LinkDecision>[]>; // Maps TableID:Scope -> Planned parent choices per row (Relationship tables)
+  warnings: Set<string>; // Non-fatal problems reported once the run finishes
+  hierarchies: Record<string, HierarchyState>; // Maps ColumnID -> Tree built so far by a self-referencing column
+  deferredColumnIds: Set<string>; // Foreign keys left empty on the first pass and back-filled afterwards (two-pass mode)
+}
+
+// Per-row tree bookkeeping for a self-referencing column, indexed by row (parent -1 = root).
+interface HierarchyState { parentOf: number[]; depth: number[]; children: number[]; }
+
+interface LinkCandidate { tableId: string; colId?: string; }
+
+// The parent row chosen for one candidate set of a LINKED column.
+interface LinkDecision { tableId: string; pIdx: number; }
+
+// Table `from` must be generated after table `to` because columns `colIds` read its rows.
+interface TableDependency { from: string; to: string; colIds: string[]; deferrable: boolean; }
+
+// Redraws allowed per row before a unique constraint is declared unsatisfiable.
+const MAX_UNIQUE_ATTEMPTS = 1000;
+
 interface TableDataStore {
   [tableId: string]: {
     [columnId: string]: string[]; // The actual generated CSV data
   };
 }
 
+/**
+ * --- RANDOM SOURCE ---
+ * Every strategy draws from `random` instead of Math.random so that a run started
+ * with a seed is fully reproducible. It is reset at the start of each run.
+ */
+let random: () => number = Math.random;
+
+// "Now" is captured once per run so every row in an export shares the same clock.
+let runNow: number = Date.now();
+
+// Inclusive bounds (epoch ms) every generated date must fall within. Set per run from the project horizon.
+let dateWindow = { start: new Date('2024-01-01').getTime(), end: new Date('2026-12-31').getTime() + 86399999 };
+
+// Folds an arbitrary seed string into a 32-bit integer (FNV-1a).
+const hashSeed = (seed: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for synthetic data.
+const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
 /**
  * --- HELPER FUNCTIONS ---
  * Basic utilities for randomizing data.
  */
 const getRandom = <T,>(arr: T[]): T => {
   if (!arr || arr.length === 0) return undefined as any;
-  return arr[Math.floor(Math.random() * arr.length)];
+  return arr[Math.floor(random() * arr.length)];
+};
+
+// Fisher-Yates, in place.
+const shuffle = <T,>(arr: T[]): T[] => {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
 };
 
 const getRandomInt = (min: number, max: number): number => {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
+};
+
+// Picks an option with probability proportional to its weight. Options without a weight count as 1.
+const getWeightedRandom = (options: string[], weights?: Record<string, number>): string => {
+  if (!weights) return getRandom(options);
+  const w = options.map(o => Math.max(0, weights[o] ?? 1));
+  const total = w.reduce((a, b) => a + b, 0);
+  if (total <= 0) return getRandom(options);
+  let r = random() * total;
+  for (let i = 0; i < options.length; i++) {
+    r -= w[i];
+    if (r < 0) return options[i];
+  }
+  return options[options.length - 1];
+};
+
+// Standard normal deviate (Box-Muller).
+const getRandomNormal = (): number => {
+  const u = 1 - random(); // (0, 1] keeps log() finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
 };
 
 const generateRandomHex = (length: number): string => {
   let result = '';
   const characters = '0123456789ABCDEF';
   for (let i = 0; i < length; i++) {
-    result += characters.charAt(Math.floor(Math.random() * 16));
+    result += characters.charAt(Math.floor(random() * 16));
   }
   return result;
 };
 
+// RFC 4122 v4 layout, built from the run's random source so seeded runs repeat.
+const generateUuid = (): string => {
+  const hex = generateRandomHex(32).toLowerCase();
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
 /**
  * Handles ID generation patterns like "ID-####" or "HEX-32"
  */
 const generateId = (pattern: string, index: number): string => {
-  if (pattern === 'UUID') return crypto.randomUUID();
+  if (pattern === 'UUID') return generateUuid();
   if (pattern.startsWith('HEX-')) {
     const len = parseInt(pattern.split('-')[1]) || 32;
     return generateRandomHex(len);
@@ -90,108 +193,1279 @@ const formatDate = (date: Date, format: string = 'YYYY-MM-DD'): string => {
   }
 };
 
-const generateRandomDate = (startYear = 2020, endYear = 2030): Date => {
-  const start = new Date(startYear, 0, 1).getTime();
-  const end = new Date(endYear, 11, 31).getTime();
-  return new Date(start + Math.random() * (end - start));
+const generateRandomDate = (): Date => {
+  return new Date(dateWindow.start + random() * (dateWindow.end - dateWindow.start));
+};
+
+const clampToWindow = (time: number): number => Math.min(Math.max(time, dateWindow.start), dateWindow.end);
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Turns a horizon preset into concrete YYYY-MM-DD bounds relative to `now`.
+ * Returns undefined for 'Custom' (the stored dates apply).
+ */
+export const resolvePresetRange = (
+  preset: GlobalSettings['preset'], 
+  now: Date = new Date()
+): { startDate: string, endDate: string } | undefined => {
+  const year = now.getUTCFullYear();
+  switch (preset) {
+    case 'Last 3 Years': {
+      const start = new Date(now);
+      start.setUTCFullYear(year - 3);
+      return { startDate: toDateString(start), endDate: toDateString(now) };
+    }
+    case 'Current Year':
+      return { startDate: `${year}-01-01`, endDate: `${year}-12-31` };
+    case 'Next Year':
+      return { startDate: `${year + 1}-01-01`, endDate: `${year + 1}-12-31` };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * The day "now" is pinned to when it does not follow the run date: the stored reference date
+ * clamped to the horizon, or the middle of the horizon when none is stored.
+ */
+export const resolveReferenceDate = (startDate: string, endDate: string, referenceDate?: string): string => {
+  const start = new Date(startDate).getTime();
+  const end = new Date(endDate).getTime();
+  if (isNaN(start) || isNaN(end)) return referenceDate || startDate;
+  const ref = referenceDate ? new Date(referenceDate).getTime() : NaN;
+  return toDateString(new Date(isNaN(ref) ? start + (end - start) / 2 : Math.min(Math.max(ref, start), end)));
+};
+
+/**
+ * Resolves a column value for the current row: same-row values come from the row being built,
+ * other tables from the parent row this row's LINKED columns picked, else the most recent row
+ * in this thread, falling back to a random stored row.
+ */
+const lookupValue = (
+  tableId: string | undefined,
+  colId: string | undefined,
+  currentTableId: string,
+  currentRow: Record<string, string>,
+  globalStore: TableDataStore,
+  threadContext: ThreadContext,
+  linkDecisions: Record<string, LinkDecision> = {}
+): string | undefined => {
+  if (!colId) return undefined;
+  const tId = tableId || currentTableId;
+  
+  // Check if the data exists in the current row
+  if (tId === currentTableId) return currentRow[colId];
+
+  // The parent row this row links to
+  const decision = Object.values(linkDecisions).find(d => d.tableId === tId);
+  if (decision) return globalStore[tId]?.[colId]?.[decision.pIdx];
+  
+  // Check if we have a parent/thread relationship
+  const threadIndices = threadContext.registry[tId];
+  if (threadIndices && threadIndices.length > 0) {
+    const parentTableData = globalStore[tId];
+    const targetIdx = threadIndices[threadIndices.length - 1]; // Use most recent parent
+    return parentTableData[colId]?.[targetIdx];
+  }
+  
+  // Fallback: Random record from global store
+  const globalData = globalStore[tId];
+  if (globalData && globalData[colId]?.length > 0) {
+     return getRandom(globalData[colId]);
+  }
+  return undefined;
 };
 
+// Empty cells and NULL tokens hold no value for the columns derived from them.
+const isMissingValue = (value: string | undefined): value is undefined => value === undefined || value === '' || value === 'NULL';
+
 /**
- * Logic for calculating relative dates (e.g., "3 days after TableA.CreatedDate")
+ * Logic for calculating relative dates (e.g., "3 days after TableA.CreatedDate").
+ * Undefined when a referenced column is empty in this row, leaving the date empty too.
  */
 const resolveDate = (
   config: DateLogicConfig | undefined, 
   currentTableId: string, 
-  rowIdx: number, 
-  tableData: Record<string, string[]>, 
+  currentRow: Record<string, string>, 
   globalStore: TableDataStore, 
   format: string, 
-  threadContext: ThreadContext
-): string => {
+  threadContext: ThreadContext,
+  linkDecisions: Record<string, LinkDecision>
+): string | undefined => {
   if (!config) return formatDate(generateRandomDate(), format);
 
-  const getVal = (tableId?: string, colId?: string): string | undefined => {
-    if (!colId) return undefined;
-    const tId = tableId || currentTableId;
-    
-    // Check if the data exists in the current row
-    if (tId === currentTableId) return tableData[colId][rowIdx];
-    
-    // Check if we have a parent/thread relationship
-    const threadIndices = threadContext.registry[tId];
-    if (threadIndices && threadIndices.length > 0) {
-      const parentTableData = globalStore[tId];
-      const targetIdx = threadIndices[threadIndices.length - 1]; // Use most recent parent
-      return parentTableData[colId][targetIdx];
-    }
-    
-    // Fallback: Random record from global store
-    const globalData = globalStore[tId];
-    if (globalData && globalData[colId]?.length > 0) {
-       return getRandom(globalData[colId]);
-    }
-    return undefined;
+  // Unset references fall back to "now"
+  const getTime = (tableId?: string, colId?: string): number | undefined => {
+    if (!colId) return runNow;
+    const value = lookupValue(tableId, colId, currentTableId, currentRow, globalStore, threadContext, linkDecisions);
+    return isMissingValue(value) ? undefined : new Date(value).getTime();
   };
 
-  let baseTime = config.mode === 'Now' ? Date.now() : new Date(getVal(config.refTable1, config.refCol1) || Date.now()).getTime();
+  const baseTime = config.mode === 'Now' ? runNow : getTime(config.refTable1, config.refCol1);
+  if (baseTime === undefined) return undefined;
   
   if (config.mode === 'Between') {
-    const end = new Date(getVal(config.refTable2, config.refCol2) || Date.now()).getTime();
+    const end = getTime(config.refTable2, config.refCol2);
+    if (end === undefined) return undefined;
     const min = Math.min(baseTime, end);
     const max = Math.max(baseTime, end);
-    return formatDate(new Date(min + Math.random() * (max - min)), format);
+    return formatDate(new Date(clampToWindow(min + random() * (max - min))), format);
   }
 
   const offset = getRandomInt(config.minOffset || 0, config.maxOffset || 0) * 86400000;
   const finalTime = config.operator?.includes('After') ? baseTime + offset : baseTime - offset;
-  return formatDate(new Date(finalTime), format);
+  return formatDate(new Date(clampToWindow(finalTime)), format);
+};
+
+// Weekdays in [start, end), counted on whole UTC days (1970-01-01 was a Thursday).
+const countWorkingDays = (startMs: number, endMs: number): number => {
+  const from = Math.floor(Math.min(startMs, endMs) / 86400000);
+  const to = Math.floor(Math.max(startMs, endMs) / 86400000);
+  let count = 0;
+  for (let day = from; day < to; day++) {
+    const weekday = (day + 4) % 7;
+    if (weekday !== 0 && weekday !== 6) count++;
+  }
+  return endMs < startMs ? -count : count;
 };
 
 /**
- * --- TOPOLOGICAL SORT ---
- * Sorts tables so that parents are generated before children.
+ * Computes the elapsed time between two referenced dates (CALCULATE_DURATION strategy).
+ * Undefined when either date is empty in this row.
  */
-const sortTablesByDependency = (tables: Table[], allTables: Table[]): Table[] => {
-  const sorted: Table[] = [];
-  const visited = new Set<string>();
-  const visiting = new Set<string>();
+const calculateDuration = (
+  col: Column,
+  currentTableId: string,
+  currentRow: Record<string, string>,
+  globalStore: TableDataStore,
+  threadContext: ThreadContext,
+  linkDecisions: Record<string, LinkDecision>
+): string | undefined => {
+  const cfg = col.rule.config;
+  if (!cfg?.startColId || !cfg.endColId) return "NOT_FOUND";
+  const startVal = lookupValue(cfg.startTableId, cfg.startColId, currentTableId, currentRow, globalStore, threadContext, linkDecisions);
+  const endVal = lookupValue(cfg.endTableId, cfg.endColId, currentTableId, currentRow, globalStore, threadContext, linkDecisions);
+  if (isMissingValue(startVal) || isMissingValue(endVal)) return undefined;
 
-  const visit = (table: Table) => {
-    if (visited.has(table.id)) return;
-    if (visiting.has(table.id)) {
-      console.warn("Circular dependency detected in table:", table.name);
-      return;
+  const startMs = new Date(startVal).getTime();
+  const endMs = new Date(endVal).getTime();
+  if (isNaN(startMs) || isNaN(endMs)) return "INVALID_DATE";
+
+  const diff = endMs - startMs;
+  switch (cfg?.unit) {
+    case 'Hours': return Math.round(diff / 3600000).toString();
+    case 'Weeks': return (Math.round(diff / (7 * 86400000) * 10) / 10).toString();
+    case 'Working Days': return countWorkingDays(startMs, endMs).toString();
+    default: return Math.round(diff / 86400000).toString();
+  }
+};
+
+/**
+ * Picks an existing row from another table (RANDOM_RECORD strategy).
+ * Optionally prefers rows registered in the current thread and/or draws without replacement;
+ * rows drawn after the source runs out are NOT_FOUND and the run reports it.
+ */
+const pickRandomRecord = (
+  col: Column,
+  table: Table,
+  threadContext: ThreadContext,
+  globalStore: TableDataStore,
+  runContext: RunContext
+): string => {
+  const cfg = col.rule.config;
+  const sourceTableId = cfg?.linkedTableId || cfg?.linkedSources?.[0]?.tableId;
+  const sourceColId = cfg?.linkedTableId ? cfg.linkedColumnId : cfg?.linkedSources?.[0]?.columnId;
+  const sourceData = sourceTableId ? globalStore[sourceTableId] : undefined;
+  if (!sourceData) return "NOT_FOUND";
+
+  const values = sourceData[sourceColId || Object.keys(sourceData)[0]] || [];
+  const consumed = runContext.consumedRecords[col.id] || (runContext.consumedRecords[col.id] = new Set());
+  const isAvailable = (idx: number) => idx < values.length && !(cfg?.withoutReplacement && consumed.has(idx));
+
+  let pool: number[] = [];
+  if (cfg?.preferThreadRecords) {
+    pool = (threadContext.registry[sourceTableId!] || []).filter(isAvailable);
+  }
+  if (pool.length === 0) {
+    pool = values.map((_, idx) => idx).filter(isAvailable);
+  }
+  if (pool.length === 0) {
+    if (cfg?.withoutReplacement && values.length > 0) {
+      runContext.warnings.add(`"${table.name}.${col.name}" draws records without replacement but needs more than the ${values.length} source rows; the rest are NOT_FOUND.`);
     }
+    return "NOT_FOUND";
+  }
 
-    visiting.add(table.id);
-    const depTableIds = new Set<string>();
+  const idx = getRandom(pool);
+  if (cfg?.withoutReplacement) consumed.add(idx);
+  return values[idx];
+};
+
+/**
+ * Resamples the uploaded sample values (COPY strategy). Drawing from the raw list keeps observed
+ * frequencies; `dedupe` flattens them, `sequential` replays the samples in order.
+ * Multi-valued samples are rebuilt item by item so cell sizes and item frequencies both hold.
+ */
+const copySample = (col: Column, rowIdx: number): string => {
+  const cfg = col.rule.config;
+  const samples = col.sampleValues.length > 0 ? col.sampleValues : (cfg?.options || []);
+  if (samples.length === 0) return "Sample";
+  const pool = cfg?.dedupe ? Array.from(new Set(samples)) : samples;
 
-    table.columns.forEach(col => {
-      const config = col.rule.config;
-      if (col.rule.type === GenerationStrategyType.LINKED || col.rule.type === GenerationStrategyType.RANDOM_RECORD) {
-        if (config?.linkedTableId) depTableIds.add(config.linkedTableId);
-        if (config?.linkedSources) config.linkedSources.forEach(s => depTableIds.add(s.tableId));
+  if (cfg?.copyMode === 'sequential') return pool[rowIdx % pool.length];
+
+  const delimiter = cfg?.delimiter;
+  if (!delimiter || !samples.some(s => s.includes(delimiter))) return getRandom(pool);
+
+  const splitItems = (s: string) => s.split(delimiter).map(i => i.trim()).filter(Boolean);
+  const allItems = samples.flatMap(splitItems);
+  const items = cfg?.dedupe ? Array.from(new Set(allItems)) : allItems;
+  const size = Math.min(splitItems(getRandom(samples)).length || 1, new Set(items).size);
+  const picked = new Set<string>();
+  while (picked.size < size) picked.add(getRandom(items));
+  return Array.from(picked).join(delimiter);
+};
+
+/**
+ * Builds a multi-select cell: between minItems and maxItems options joined by the delimiter.
+ * Options default to the distinct items found in the delimited samples.
+ */
+const generateMultiSelect = (col: Column): string => {
+  const cfg = col.rule.config;
+  const delimiter = cfg?.delimiter || '|';
+  const sampleItems = col.sampleValues.flatMap(s => s.split(delimiter).map(i => i.trim())).filter(Boolean);
+  const options = (cfg?.options || []).filter(Boolean);
+  const pool = Array.from(new Set(options.length > 0 ? options : sampleItems));
+  if (pool.length === 0) return "";
+
+  const distinct = cfg?.noDuplicateItems ?? true;
+  const min = Math.max(0, cfg?.minItems ?? 1);
+  const max = Math.max(min, cfg?.maxItems ?? Math.min(3, pool.length));
+  const count = Math.min(getRandomInt(min, max), distinct ? pool.length : max);
+
+  let picked: string[] = [];
+  if (distinct) {
+    const remaining = [...pool];
+    while (picked.length < count) picked.push(remaining.splice(Math.floor(random() * remaining.length), 1)[0]);
+  } else {
+    for (let i = 0; i < count; i++) picked.push(getRandom(pool));
+  }
+
+  if (cfg?.itemOrder === 'options') picked.sort((a, b) => pool.indexOf(a) - pool.indexOf(b));
+  if (cfg?.itemOrder === 'alphabetical') picked.sort((a, b) => a.localeCompare(b));
+  return picked.join(delimiter);
+};
+
+/**
+ * Draws a number for a NUMERIC column from its configured distribution, then applies
+ * step, [min, max] bounds and precision. Unbounded tails are resampled a few times before clamping.
+ */
+const generateNumber = (col: Column): string => {
+  const cfg = col.rule.config?.numeric;
+  if (!cfg) return getRandom(col.rule.config?.options || col.sampleValues) || "0";
+
+  const min = Math.min(cfg.min, cfg.max);
+  const max = Math.max(cfg.min, cfg.max);
+  const mean = cfg.mean ?? (cfg.distribution === 'exponential' ? min + (max - min) / 4 : (min + max) / 2);
+  const stdDev = cfg.stdDev ?? (max - min) / 6;
+  const precision = col.type === DataType.INTEGER ? 0 : (cfg.precision ?? 2);
+
+  const draw = (): number => {
+    switch (cfg.distribution) {
+      case 'normal':
+        return mean + getRandomNormal() * stdDev;
+      case 'lognormal': {
+        // Parameters of the underlying normal chosen so the result has the configured mean/stdDev
+        const m = Math.max(mean, Number.EPSILON);
+        const sigma2 = Math.log(1 + (stdDev * stdDev) / (m * m));
+        return Math.exp(Math.log(m) - sigma2 / 2 + getRandomNormal() * Math.sqrt(sigma2));
       }
-      if (col.rule.type === GenerationStrategyType.DATE && config?.dateLogic) {
-         if (config.dateLogic.refTable1) depTableIds.add(config.dateLogic.refTable1);
-         if (config.dateLogic.refTable2) depTableIds.add(config.dateLogic.refTable2);
+      case 'exponential':
+        return min - Math.log(1 - random()) * Math.max(mean - min, Number.EPSILON);
+      case 'poisson': {
+        if (mean > 500) return Math.round(mean + getRandomNormal() * Math.sqrt(mean)); // Normal approximation
+        const limit = Math.exp(-mean);
+        let k = 0;
+        for (let p = random(); p > limit; p *= random()) k++;
+        return k;
       }
-    });
+      default:
+        return min + random() * (max - min);
+    }
+  };
+
+  let value = draw();
+  for (let attempt = 0; attempt < 10 && (value < min || value > max); attempt++) value = draw();
+  value = Math.min(max, Math.max(min, value));
+  if (cfg.step && cfg.step > 0) {
+    value = min + Math.round((value - min) / cfg.step) * cfg.step;
+    if (value > max) value -= cfg.step;
+  }
+  return value.toFixed(precision);
+};
+
+/**
+ * Steps a revision past the end of its schema: trailing digits count up (keeping their width),
+ * trailing letters continue like spreadsheet columns (D, E ... Z, AA), anything else gets a number.
+ */
+const incrementRevision = (value: string, steps: number): string => {
+  const digits = value.match(/^(.*?)(\d+)$/);
+  if (digits) return digits[1] + String(parseInt(digits[2]) + steps).padStart(digits[2].length, '0');
+
+  const letters = value.match(/^(.*?)([A-Za-z]+)$/);
+  if (!letters) return `${value}${steps}`;
+  const upper = letters[2] === letters[2].toUpperCase();
+  let n = Array.from(letters[2].toUpperCase()).reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) + steps;
+  let next = '';
+  while (n > 0) {
+    next = String.fromCharCode(65 + (n - 1) % 26) + next;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters[1] + (upper ? next : next.toLowerCase());
+};
+
+/**
+ * Walks Column.revisionSchema (e.g. "-, A, B, C"). Rows sharing an identity value, or else the same
+ * driving parent row, form a group: "history" gives the group consecutive revisions, "latest" one
+ * revision for the whole group. Ungrouped rows are independent objects with a random revision.
+ * Histories longer than the schema keep incrementing from its last value.
+ */
+const generateRevision = (
+  col: Column,
+  currentRow: Record<string, string>,
+  groupParent: string | undefined,
+  runContext: RunContext
+): string => {
+  const cfg = col.rule.config;
+  const schema = (col.revisionSchema || '-, A, B, C, D').split(',').map(r => r.trim()).filter(Boolean);
+  if (schema.length === 0) return "";
+
+  const identity = cfg?.revisionIdentityColumnId ? currentRow[cfg.revisionIdentityColumnId] : undefined;
+  const groupKey = identity !== undefined ? `id:${identity}` : groupParent;
+  if (!groupKey) return getRandom(schema);
+
+  const counterKey = `${col.id}:${groupKey}`;
+  if (cfg?.revisionMode === 'latest') {
+    if (runContext.revisionCounters[counterKey] === undefined) {
+      runContext.revisionCounters[counterKey] = getRandomInt(0, schema.length - 1);
+    }
+    return schema[runContext.revisionCounters[counterKey]];
+  }
+
+  const position = runContext.revisionCounters[counterKey] ?? 0;
+  runContext.revisionCounters[counterKey] = position + 1;
+  return position < schema.length ? schema[position] : incrementRevision(schema[schema.length - 1], position - schema.length + 1);
+};
+
+/**
+ * Computes a date N days before/after a source column (GenerationRule.config.relativeDateConfig).
+ * The source is a column of the same row, or of the linked parent row when isLinkedSource is set.
+ * Undefined when the source is empty.
+ */
+const resolveRelativeDate = (
+  col: Column,
+  currentTableId: string,
+  currentRow: Record<string, string>,
+  globalStore: TableDataStore,
+  allTables: Table[],
+  format: string,
+  threadContext: ThreadContext,
+  linkDecisions: Record<string, LinkDecision>
+): string | undefined => {
+  const rel = col.rule.config!.relativeDateConfig!;
+  const sourceTableId = rel.isLinkedSource 
+    ? allTables.find(t => t.columns.some(c => c.id === rel.sourceColumnId))?.id 
+    : currentTableId;
+  const sourceVal = lookupValue(sourceTableId, rel.sourceColumnId, currentTableId, currentRow, globalStore, threadContext, linkDecisions);
+  if (isMissingValue(sourceVal)) return undefined;
+  const baseTime = new Date(sourceVal).getTime();
+
+  const offset = getRandomInt(Math.min(rel.minDays || 0, rel.maxDays || 0), Math.max(rel.minDays || 0, rel.maxDays || 0)) * 86400000;
+  const finalTime = rel.direction === 'before' ? baseTime - offset : baseTime + offset;
+  return formatDate(new Date(clampToWindow(finalTime)), format);
+};
+
+// What an empty cell of this column holds: "" or the literal NULL token.
+const getEmptyToken = (col: Column): string => col.rule.config?.emptyAs === 'null' ? 'NULL' : '';
+
+// The column's emptyUnless condition, ignored until both a column and at least one value are set.
+const getEmptyUnless = (col: Column): { columnId: string, values: string[] } | undefined => {
+  const condition = col.rule.config?.emptyUnless;
+  const values = (condition?.values || []).filter(Boolean);
+  return condition?.columnId && values.length > 0 ? { columnId: condition.columnId, values } : undefined;
+};
+
+const hasEmptiness = (col: Column): boolean => !!(col.rule.config?.nullRate || getEmptyUnless(col));
+
+/**
+ * Whether a column is left empty in a row: always when its emptyUnless condition does not hold
+ * for the row's other values, otherwise with probability nullRate (unless the caller plans it).
+ */
+const isLeftEmpty = (col: Column, row: Record<string, string>, withNullRate = true): boolean => {
+  const cfg = col.rule.config;
+  const condition = getEmptyUnless(col);
+  if (condition && !condition.values.includes(row[condition.columnId] ?? '')) return true;
+  return withNullRate && !!cfg?.nullRate && random() < cfg.nullRate;
+};
+
+/**
+ * The column a formula or template reference names: a column of this table, otherwise "Table.column" on
+ * another table, whose value comes from the linked parent row in the thread.
+ */
+const resolveColumnReference = (name: string, table: Table, allTables: Table[]): { table: Table, col: Column } | undefined => {
+  const local = table.columns.find(c => c.name === name);
+  if (local) return { table, col: local };
+  // Table and column names may both contain dots, so try every split point
+  for (let i = name.indexOf('.'); i !== -1; i = name.indexOf('.', i + 1)) {
+    const refTable = allTables.find(t => t.name === name.slice(0, i));
+    const refCol = refTable?.columns.find(c => c.name === name.slice(i + 1));
+    if (refTable && refCol) return { table: refTable, col: refCol };
+  }
+  return undefined;
+};
+
+// Columns a FORMULA rule reads (none while the formula does not parse).
+const getFormulaColumns = (rule: GenerationRule, table: Table, allTables: Table[]): { table: Table, col: Column }[] => {
+  try {
+    return getFormulaReferences(parseFormula(rule.config?.formula || ''))
+      .map(name => resolveColumnReference(name, table, allTables))
+      .filter(ref => ref !== undefined);
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Why a formula cannot run in this table: a syntax error, an unknown column or a reference to
+ * the column itself. Undefined when the formula is fine.
+ */
+export const getFormulaError = (formula: string, col: Column, table: Table, allTables: Table[]): string | undefined => {
+  try {
+    const refs = getFormulaReferences(parseFormula(formula));
+    const unknown = refs.find(name => !resolveColumnReference(name, table, allTables));
+    if (unknown) return `Unknown column "${unknown}"`;
+    if (refs.some(name => resolveColumnReference(name, table, allTables)?.col.id === col.id)) return `"${col.name}" cannot refer to itself`;
+    return undefined;
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+/**
+ * Evaluates a FORMULA rule for the row being built. Empty results follow the column's empty token.
+ */
+const computeFormula = (
+  col: Column,
+  table: Table,
+  currentRow: Record<string, string>,
+  globalStore: TableDataStore,
+  allTables: Table[],
+  format: string,
+  threadContext: ThreadContext,
+  linkDecisions: Record<string, LinkDecision>
+): string => {
+  const ctx: FormulaContext = {
+    resolve: name => {
+      const ref = resolveColumnReference(name, table, allTables);
+      if (!ref) return null;
+      return toFormulaValue(lookupValue(ref.table.id, ref.col.id, table.id, currentRow, globalStore, threadContext, linkDecisions), ref.col.type);
+    },
+    now: runNow,
+    formatDate: (date, dateFormat) => formatDate(date, dateFormat || format),
+  };
+  const result = evaluateFormula(parseFormula(col.rule.config?.formula || ''), ctx);
+  return result === null ? getEmptyToken(col) : formulaToText(result, ctx);
+};
+
+// Columns a TEMPLATE rule reads (none while the template does not parse).
+const getTemplateColumns = (rule: GenerationRule, table: Table, allTables: Table[]): { table: Table, col: Column }[] => {
+  try {
+    return getTemplateReferences(parseTemplate(rule.config?.template || ''))
+      .map(name => resolveColumnReference(name, table, allTables))
+      .filter(ref => ref !== undefined);
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Why a template cannot run in this table, as for formulas. {seq} is the row number unless a
+ * column of that name exists.
+ */
+export const getTemplateError = (template: string, col: Column, table: Table, allTables: Table[]): string | undefined => {
+  try {
+    const refs = getTemplateReferences(parseTemplate(template));
+    const unknown = refs.find(name => name !== TEMPLATE_SEQUENCE && !resolveColumnReference(name, table, allTables));
+    if (unknown) return `Unknown column "${unknown}"`;
+    if (refs.some(name => resolveColumnReference(name, table, allTables)?.col.id === col.id)) return `"${col.name}" cannot refer to itself`;
+    return undefined;
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+/**
+ * Fills a TEMPLATE rule for the row being built. Without a template, or with templateFallback set
+ * and a placeholder left empty, the column generates from its samples like COPY.
+ */
+const renderColumnTemplate = (
+  col: Column,
+  table: Table,
+  rowIdx: number,
+  currentRow: Record<string, string>,
+  globalStore: TableDataStore,
+  allTables: Table[],
+  threadContext: ThreadContext,
+  linkDecisions: Record<string, LinkDecision>
+): string => {
+  const cfg = col.rule.config;
+  if (!cfg?.template?.trim()) return copySample(col, rowIdx);
+  const { text, missing } = renderTemplate(parseTemplate(cfg.template), name => {
+    const ref = resolveColumnReference(name, table, allTables);
+    if (!ref) return name === TEMPLATE_SEQUENCE ? String(rowIdx + 1) : undefined;
+    const value = lookupValue(ref.table.id, ref.col.id, table.id, currentRow, globalStore, threadContext, linkDecisions);
+    return value === 'NULL' ? '' : value;
+  });
+  return missing && cfg.templateFallback ? copySample(col, rowIdx) : text;
+};
+
+// A CONDITIONAL column generates with one of its branch rules; dependency checks must see every one.
+const getRuleVariants = (col: Column): Column[] => {
+  if (col.rule.type !== GenerationStrategyType.CONDITIONAL) return [col];
+  const cfg = col.rule.config;
+  const rules = [...(cfg?.branches || []).map(b => b.rule), ...(cfg?.defaultRule ? [cfg.defaultRule] : [])];
+  return [col, ...rules.flatMap(rule => getRuleVariants({ ...col, rule }))];
+};
+
+/**
+ * Same-row columns a column reads while it is generated; these must be filled in first. Reading
+ * another table's column depends on the LINKED columns that pick this row's parent in that table.
+ */
+const getColumnDependencies = (col: Column, table: Table, allTables: Table[] = [table]): string[] => {
+  const deps: string[] = [];
+  // An omitted table means this one, as in lookupValue
+  const addIfLocal = (tableId?: string, colId?: string) => {
+    if ((tableId || table.id) === table.id && colId) deps.push(colId);
+  };
+  const addLinksTo = (tableId?: string) => {
+    if (!tableId || tableId === table.id) return;
+    table.columns
+      .filter(c => c.rule.type === GenerationStrategyType.LINKED && getLinkCandidates(c).some(cand => cand.tableId === tableId))
+      .forEach(c => deps.push(c.id));
+  };
+
+  getRuleVariants(col).forEach(variant => {
+    const cfg = variant.rule.config;
+    if (variant.rule.type === GenerationStrategyType.DATE && cfg?.dateLogic && cfg.dateLogic.mode !== 'Now') {
+      addIfLocal(cfg.dateLogic.refTable1, cfg.dateLogic.refCol1);
+      addLinksTo(cfg.dateLogic.refTable1);
+      if (cfg.dateLogic.mode === 'Between') {
+        addIfLocal(cfg.dateLogic.refTable2, cfg.dateLogic.refCol2);
+        addLinksTo(cfg.dateLogic.refTable2);
+      }
+    }
+    if (cfg?.relativeDateConfig?.sourceColumnId && !cfg.relativeDateConfig.isLinkedSource) {
+      deps.push(cfg.relativeDateConfig.sourceColumnId);
+    }
+    if (cfg?.relativeDateConfig?.sourceColumnId && cfg.relativeDateConfig.isLinkedSource) {
+      addLinksTo(allTables.find(t => t.columns.some(c => c.id === cfg.relativeDateConfig!.sourceColumnId))?.id);
+    }
+    if (variant.rule.type === GenerationStrategyType.CALCULATE_DURATION) {
+      addIfLocal(cfg?.startTableId, cfg?.startColId);
+      addIfLocal(cfg?.endTableId, cfg?.endColId);
+      addLinksTo(cfg?.startTableId);
+      addLinksTo(cfg?.endTableId);
+    }
+    if (variant.rule.type === GenerationStrategyType.CONDITIONAL) {
+      (cfg?.branches || []).forEach(b => {
+        addIfLocal(b.when.tableId, b.when.columnId);
+        addLinksTo(b.when.tableId);
+      });
+    }
+    if (variant.rule.type === GenerationStrategyType.FORMULA) {
+      getFormulaColumns(variant.rule, table, allTables).forEach(ref => {
+        addIfLocal(ref.table.id, ref.col.id);
+        addLinksTo(ref.table.id);
+      });
+    }
+    if (variant.rule.type === GenerationStrategyType.TEMPLATE) {
+      getTemplateColumns(variant.rule, table, allTables).forEach(ref => {
+        addIfLocal(ref.table.id, ref.col.id);
+        addLinksTo(ref.table.id);
+      });
+    }
+    if (cfg?.revisionIdentityColumnId) deps.push(cfg.revisionIdentityColumnId);
+    const emptyUnless = getEmptyUnless(variant);
+    if (emptyUnless) deps.push(emptyUnless.columnId);
+    (cfg?.dependentColumnIds || []).forEach(id => deps.push(id));
+  });
+
+  return deps.filter(id => id !== col.id && table.columns.some(c => c.id === id));
+};
+
+/**
+ * Tests a CONDITIONAL branch predicate against the row being built, or against the linked parent
+ * row when it names another table. Ordering compares numbers numerically and anything else
+ * (ISO dates included) as text; NULL tokens count as empty.
+ */
+const evaluatePredicate = (
+  predicate: ColumnPredicate,
+  currentTableId: string,
+  currentRow: Record<string, string>,
+  globalStore: TableDataStore,
+  threadContext: ThreadContext,
+  linkDecisions: Record<string, LinkDecision>
+): boolean => {
+  const raw = lookupValue(predicate.tableId, predicate.columnId, currentTableId, currentRow, globalStore, threadContext, linkDecisions) ?? '';
+  const actual = raw === 'NULL' ? '' : raw;
+  const expected = predicate.value ?? '';
+  const compare = (): number => {
+    const a = Number(actual);
+    const b = Number(expected);
+    if (actual.trim() !== '' && expected.trim() !== '' && !isNaN(a) && !isNaN(b)) return a - b;
+    return actual < expected ? -1 : actual > expected ? 1 : 0;
+  };
+
+  switch (predicate.operator) {
+    case 'equals': return actual === expected;
+    case 'notEquals': return actual !== expected;
+    case 'in': return expected.split(',').map(v => v.trim()).includes(actual);
+    case 'notIn': return !expected.split(',').map(v => v.trim()).includes(actual);
+    case 'greaterThan': return actual !== '' && compare() > 0;
+    case 'lessThan': return actual !== '' && compare() < 0;
+    case 'isEmpty': return actual === '';
+    case 'isNotEmpty': return actual !== '';
+    default: return false;
+  }
+};
+
+/**
+ * Orders a table's columns topologically so every column is generated after the same-row
+ * columns it depends on. Declaration order is kept wherever dependencies allow.
+ * Throws when columns depend on each other in a cycle.
+ */
+export const orderColumnsForRow = (table: Table, allTables: Table[] = [table]): Column[] => {
+  const ordered: Column[] = [];
+  const placed = new Set<string>();
+  const visiting: Column[] = [];
+
+  const place = (col: Column) => {
+    if (placed.has(col.id)) return;
+    const cycleStart = visiting.indexOf(col);
+    if (cycleStart !== -1) {
+      const path = [...visiting.slice(cycleStart), col].map(c => c.name).join(' → ');
+      throw new Error(`Circular column dependency in table "${table.name}": ${path}`);
+    }
+    visiting.push(col);
+    getColumnDependencies(col, table, allTables).forEach(depId => place(table.columns.find(c => c.id === depId)!));
+    visiting.pop();
+    placed.add(col.id);
+    ordered.push(col);
+  };
+
+  table.columns.forEach(place);
+  return ordered;
+};
+
+/**
+ * Column sets whose combined values must not repeat within a table: the primary key
+ * (composite when several columns are flagged), columns marked unique, and Table.uniqueKeys.
+ */
+export const getUniqueConstraints = (table: Table): string[][] => {
+  const constraints: string[][] = [];
+  const pk = table.columns.filter(c => c.isPrimaryKey).map(c => c.id);
+  if (pk.length > 0) constraints.push(pk);
+  table.columns
+    .filter(c => c.isUnique && !(pk.length === 1 && c.isPrimaryKey))
+    .forEach(c => constraints.push([c.id]));
+  (table.uniqueKeys || [])
+    .map(key => key.filter(id => table.columns.some(c => c.id === id)))
+    .filter(key => key.length > 0)
+    .forEach(key => constraints.push(key));
+  return constraints;
+};
+
+/**
+ * Number of distinct values a column can produce, or Infinity when it is effectively unbounded.
+ * Used to reject unique constraints that cannot be met before any data is generated.
+ */
+export const getValueSpaceSize = (col: Column, referenceFiles: ReferenceFile[]): number => {
+  const cfg = col.rule.config;
+  switch (col.rule.type) {
+    case GenerationStrategyType.RANDOM:
+      if ([DataType.DATE, DataType.MULTI_SELECT, DataType.REVISION].includes(col.type)) return Infinity;
+      return new Set((cfg?.options || []).filter(Boolean)).size;
+    case GenerationStrategyType.REFERENCE:
+      return new Set(referenceFiles.find(rf => rf.id === cfg?.referenceFileId)?.values || []).size;
+    case GenerationStrategyType.COPY:
+      if (cfg?.delimiter && col.sampleValues.some(s => s.includes(cfg.delimiter!))) return Infinity;
+      return new Set(col.sampleValues.length > 0 ? col.sampleValues : (cfg?.options || [])).size;
+    case GenerationStrategyType.PATTERN:
+      return cfg?.pattern?.startsWith('HEX-') ? Math.pow(16, parseInt(cfg.pattern.split('-')[1]) || 32) : Infinity;
+    case GenerationStrategyType.NUMERIC: {
+      if (!cfg?.numeric) return Infinity;
+      const { min, max, step, precision } = cfg.numeric;
+      const unit = step && step > 0 ? step : Math.pow(10, -(col.type === DataType.INTEGER ? 0 : (precision ?? 2)));
+      return Math.floor(Math.abs(max - min) / unit) + 1;
+    }
+    default:
+      return Infinity;
+  }
+};
+
+// Tables a LINKED column may draw its parent from: polymorphic sources first, then linkedTableId.
+export const getLinkCandidates = (col: Column): LinkCandidate[] => {
+  const cfg = col.rule.config;
+  const candidates: LinkCandidate[] = [];
+  if (cfg?.linkedSources) {
+    candidates.push(...cfg.linkedSources.map(s => ({ tableId: s.tableId, colId: s.columnId })));
+  }
+  if (cfg?.linkedTableId && !candidates.some(c => c.tableId === cfg.linkedTableId)) {
+    candidates.push({ tableId: cfg.linkedTableId, colId: cfg.linkedColumnId });
+  }
+  return candidates;
+};
+
+// The 1:1 relationship a LINKED column belongs to, if any. Each parent row is then linked at most once.
+const getOneToOneRelationship = (table: Table, col: Column, relationships: Relationship[]): Relationship | undefined => 
+  relationships.find(r => r.cardinality === '1:1' && (
+    (r.sourceTableId === table.id && r.sourceColumnId === col.id) || 
+    (r.targetTableId === table.id && r.targetColumnId === col.id)
+  ));
+
+// Random row in [0, count) accepted by isFree: a few blind draws, then a scan of the remaining rows.
+const pickFreeRow = (count: number, isFree: (idx: number) => boolean): number | undefined => {
+  for (let attempt = 0; attempt < 20 && count > 0; attempt++) {
+    const idx = getRandomInt(0, count - 1);
+    if (isFree(idx)) return idx;
+  }
+  return getRandom(Array.from({ length: count }, (_, idx) => idx).filter(isFree));
+};
+
+// LINKED columns with the same candidate tables share one parent choice per row.
+const getCandidateKey = (candidates: LinkCandidate[]): string => 
+  JSON.stringify(candidates.map(c => c.tableId).sort());
+
+// Quotas apply to single-valued RANDOM selections and to REFERENCE draws.
+const hasQuotas = (col: Column): boolean => {
+  const quotas = col.rule.config?.quotas;
+  if (!quotas || Object.keys(quotas).length === 0) return false;
+  if (col.rule.type === GenerationStrategyType.REFERENCE) return true;
+  return col.rule.type === GenerationStrategyType.RANDOM 
+    && ![DataType.DATE, DataType.MULTI_SELECT, DataType.REVISION].includes(col.type);
+};
 
-    depTableIds.forEach(depId => {
-      const depTable = allTables.find(t => t.id === depId);
-      if (depTable && depId !== table.id) visit(depTable);
+// Every value a quota column can take; quotas name some of them.
+const getQuotaValues = (col: Column, referenceFiles: ReferenceFile[]): string[] => col.rule.type === GenerationStrategyType.REFERENCE
+  ? referenceFiles.find(rf => rf.id === col.rule.config?.referenceFileId)?.values || []
+  : (col.rule.config?.options || []).filter(Boolean);
+
+/**
+ * Batch sizes for which a column's quotas come out exact: at least the quota total, and no more
+ * than it when the quotas cover every value and no empty cells may fill the rest.
+ */
+export const getQuotaRowRange = (col: Column, referenceFiles: ReferenceFile[]): { min: number, max: number } => {
+  if (!hasQuotas(col)) return { min: 0, max: Infinity };
+  const cfg = col.rule.config!;
+  const total = Object.values(cfg.quotas!).reduce((a, b) => a + b, 0);
+  const covers = !cfg.nullRate && getQuotaValues(col, referenceFiles).every(v => cfg.quotas![v] !== undefined);
+  return { min: total, max: covers ? total : Infinity };
+};
+
+// Anchored columns reuse one value across a thread, so they cannot hand each row its quota slot.
+export const getQuotaAnchorError = (col: Column, table: Table, referenceFiles: ReferenceFile[]): string | undefined =>
+  hasQuotas(col) && getAnchorKey(col, referenceFiles)
+    ? `Quotas for "${table.name}.${col.name}" cannot be used on an anchored column: every row of a thread reuses its first value.`
+    : undefined;
+
+// Rows are planned in batches: the whole table for fixed tables, one parent's children for 'per_parent' tables.
+const getBatchScope = (drivingParentIdx?: number): string => 
+  drivingParentIdx !== undefined ? `parent:${drivingParentIdx}` : 'table';
+
+/**
+ * Pre-allocates quota values for a batch of `count` rows about to be generated in `scope`.
+ * Each quota value fills exactly its requested number of slots, the remaining slots draw from
+ * values without a quota, and the batch is shuffled. The column's null rate is planned here too,
+ * on the remaining slots only, so empty rows never take a quota value.
+ * Throws when the quotas cannot be met exactly.
+ */
+const planQuotas = (
+  table: Table, 
+  count: number, 
+  scope: string, 
+  referenceFiles: ReferenceFile[], 
+  runContext: RunContext
+) => {
+  for (const col of table.columns) {
+    if (!hasQuotas(col)) continue;
+    const anchorError = getQuotaAnchorError(col, table, referenceFiles);
+    if (anchorError) throw new Error(anchorError);
+    const cfg = col.rule.config!;
+    const quotas = cfg.quotas!;
+    const where = scope === 'table' ? `"${table.name}"` : `each parent of "${table.name}"`;
+
+    const pool: (string | null)[] = [];
+    Object.entries(quotas).forEach(([value, n]) => {
+      for (let i = 0; i < n; i++) pool.push(value);
     });
+    if (pool.length > count) {
+      throw new Error(`Quotas for "${table.name}.${col.name}" need ${pool.length} rows but only ${count} are generated for ${where}.`);
+    }
+
+    const rest = getQuotaValues(col, referenceFiles).filter(v => quotas[v] === undefined);
+    if (pool.length < count && rest.length === 0 && !cfg.nullRate) {
+      throw new Error(`Quotas for "${table.name}.${col.name}" cover every value but only ${pool.length} of ${count} rows for ${where}.`);
+    }
+    // With every value under a quota, the rows left over can only be empty
+    while (pool.length < count) pool.push(rest.length === 0 || (cfg.nullRate && random() < cfg.nullRate) ? null : getWeightedRandom(rest, cfg.optionWeights));
+
+    runContext.quotaPools[`${col.id}:${scope}`] = shuffle(pool);
+  }
+};
+
+// Quota values still pooled after a batch went to rows its Empty Unless condition left empty.
+const reportUnusedQuotas = (table: Table, scope: string, runContext: RunContext) => {
+  table.columns.filter(hasQuotas).forEach(col => {
+    const key = `${col.id}:${scope}`;
+    const unused = (runContext.quotaPools[key] || []).filter(v => v !== null && col.rule.config!.quotas![v] !== undefined);
+    if (unused.length > 0) {
+      runContext.warnings.add(`Quotas for "${table.name}.${col.name}" were not fully used: its Empty Unless condition left some rows empty.`);
+    }
+    delete runContext.quotaPools[key];
+  });
+};
+
+/**
+ * Relationship tables: picks `count` distinct parent combinations for a batch before its rows are
+ * generated, so no two rows link the same parents. Parents are drawn from every generated row of the
+ * linked tables (the driving parent is fixed in 'per_parent' batches), and each row of a table listed
+ * in coverLinkedTableIds joins at least one combination. Throws when the combinations cannot be met.
+ */
+const planLinkCombinations = (
+  table: Table, 
+  count: number, 
+  drivingParentIdx: number | undefined, 
+  globalStore: TableDataStore, 
+  runContext: RunContext
+) => {
+  if (table.tableType !== 'Relationship') return;
+
+  // One group per candidate set; each option is a concrete parent row
+  const groups = new Map<string, LinkDecision[]>();
+  table.columns.filter(c => c.rule.type === GenerationStrategyType.LINKED).forEach(col => {
+    const candidates = getLinkCandidates(col);
+    const key = getCandidateKey(candidates);
+    if (candidates.length === 0 || groups.has(key)) return;
+    const driving = candidates.find(c => c.tableId === table.genSettings?.drivingParentTableId);
+    groups.set(key, driving && drivingParentIdx !== undefined
+      ? [{ tableId: driving.tableId, pIdx: drivingParentIdx }]
+      : candidates.flatMap(c => (Object.values(globalStore[c.tableId] || {})[0] || []).map((_, pIdx) => ({ tableId: c.tableId, pIdx }))));
+  });
+  if (groups.size === 0) return;
+
+  const keys = Array.from(groups.keys());
+  const options = keys.map(k => groups.get(k)!);
+  const where = drivingParentIdx !== undefined ? ' per parent' : '';
+  const total = options.reduce((n, o) => n * o.length, 1);
+  if (count > total) {
+    throw new Error(`"${table.name}" needs ${count} distinct link combinations${where} but its linked tables only allow ${total}.`);
+  }
+
+  const used = new Set<string>();
+  const plan: Record<string, LinkDecision>[] = [];
+  const tryAdd = (choice: LinkDecision[]) => {
+    const comboKey = choice.map(d => `${d.tableId}#${d.pIdx}`).join('|');
+    if (used.has(comboKey)) return;
+    used.add(comboKey);
+    plan.push(Object.fromEntries(keys.map((k, g) => [k, choice[g]])));
+  };
+
+  // Coverage: the i-th combination takes the i-th uncovered row of every covered group, so the
+  // group with the most rows to cover keeps these combinations distinct
+  const coverIds = table.genSettings?.coverLinkedTableIds || [];
+  const toCover = options.map(opts => shuffle(opts.filter(o => coverIds.includes(o.tableId))));
+  const needed = Math.max(0, ...toCover.map(c => c.length));
+  if (needed > count) {
+    throw new Error(`Covering every linked row needs at least ${needed} rows in "${table.name}"${where}, but only ${count} are generated.`);
+  }
+  for (let i = 0; i < needed; i++) {
+    tryAdd(options.map((opts, g) => toCover[g][i] || getRandom(opts)));
+  }
+
+  // Remaining rows: rejection sampling while combinations are plentiful, otherwise draw from the unused ones
+  if (count - plan.length <= (total - plan.length) / 2) {
+    while (plan.length < count) tryAdd(options.map(opts => getRandom(opts)));
+  } else {
+    const all = options.reduce<LinkDecision[][]>((combos, opts) => combos.flatMap(c => opts.map(o => [...c, o])), [[]]);
+    shuffle(all).forEach(choice => { if (plan.length < count) tryAdd(choice); });
+  }
+
+  runContext.linkPlans[`${table.id}:${getBatchScope(drivingParentIdx)}`] = shuffle(plan);
+};
+
+/**
+ * Link pairs [sourceRow, targetRow] for an N:M relationship. Each source row gets between minPerSource
+ * and maxPerSource distinct targets; targets still below minPerTarget are then topped up from sources
+ * with spare capacity. Throws when the per-side bounds cannot all be met.
+ */
+const planManyToManyPairs = (
+  rel: Relationship, 
+  sourceCount: number, 
+  targetCount: number, 
+  label: string
+): [number, number][] => {
+  const j = rel.junction || {};
+  const minS = j.minPerSource ?? 1;
+  const maxS = Math.min(j.maxPerSource ?? Math.max(minS, 3), targetCount);
+  const minT = j.minPerTarget ?? 0;
+  const maxT = j.maxPerTarget ?? Infinity;
+
+  const links: Set<number>[] = Array.from({ length: sourceCount }, () => new Set<number>());
+  const targetDegree: number[] = new Array(targetCount).fill(0);
+  const link = (s: number, t: number) => { links[s].add(t); targetDegree[t]++; };
+
+  shuffle(Array.from({ length: sourceCount }, (_, s) => s)).forEach(s => {
+    const wanted = getRandomInt(Math.min(minS, maxS), maxS);
+    const open = shuffle(Array.from({ length: targetCount }, (_, t) => t).filter(t => targetDegree[t] < maxT));
+    open.slice(0, wanted).forEach(t => link(s, t));
+  });
+  for (let t = 0; t < targetCount; t++) {
+    const spare = shuffle(Array.from({ length: sourceCount }, (_, s) => s).filter(s => links[s].size < maxS && !links[s].has(t)));
+    while (targetDegree[t] < minT && spare.length > 0) link(spare.pop()!, t);
+  }
+
+  if (links.some(l => l.size < Math.min(minS, targetCount)) || targetDegree.some(d => d < Math.min(minT, sourceCount))) {
+    throw new Error(`N:M relationship ${label} cannot satisfy its link bounds (${minS}-${j.maxPerSource ?? maxS} per source row, ${minT}-${j.maxPerTarget ?? '∞'} per target row) with ${sourceCount} source and ${targetCount} target rows.`);
+  }
+  return links.flatMap((targets, s) => Array.from(targets).map(t => [s, t] as [number, number]));
+};
+
+// Link group key of the junction table's LINKED column for one side of an N:M relationship.
+const getJunctionKey = (table: Table, tableId: string): string | undefined => {
+  const col = table.columns.find(c => c.rule.type === GenerationStrategyType.LINKED && getLinkCandidates(c).some(cand => cand.tableId === tableId));
+  return col ? getCandidateKey(getLinkCandidates(col)) : undefined;
+};
+
+// Validation message when a junction table has no separate LINKED columns for both sides of its relationship.
+export const getJunctionError = (table: Table, rel: Relationship, allTables: Table[]): string | undefined => {
+  const sourceKey = getJunctionKey(table, rel.sourceTableId);
+  const targetKey = getJunctionKey(table, rel.targetTableId);
+  if (sourceKey && targetKey && sourceKey !== targetKey) return undefined;
+  const name = (id: string) => allTables.find(t => t.id === id)?.name || id;
+  return `Junction table "${table.name}" needs separate Linked columns for "${name(rel.sourceTableId)}" and "${name(rel.targetTableId)}".`;
+};
+
+/**
+ * Fills a Relationship-type table from an N:M relationship: plans the link pairs, hands them to the
+ * table's LINKED columns for the source and target tables, and returns the number of rows to generate.
+ */
+const planJunctionTable = (
+  table: Table, 
+  rel: Relationship, 
+  allTables: Table[], 
+  globalStore: TableDataStore, 
+  runContext: RunContext
+): number => {
+  const sourceKey = getJunctionKey(table, rel.sourceTableId);
+  const targetKey = getJunctionKey(table, rel.targetTableId);
+  if (!sourceKey || !targetKey || sourceKey === targetKey) throw new Error(getJunctionError(table, rel, allTables));
+  const name = (id: string) => allTables.find(t => t.id === id)?.name || id;
+
+  const rowCount = (id: string) => Object.values(globalStore[id] || {})[0]?.length || 0;
+  const pairs = planManyToManyPairs(rel, rowCount(rel.sourceTableId), rowCount(rel.targetTableId), `"${name(rel.sourceTableId)}" ↔ "${name(rel.targetTableId)}"`);
+  runContext.linkPlans[`${table.id}:${getBatchScope()}`] = shuffle(pairs.map(([s, t]) => ({
+    [sourceKey]: { tableId: rel.sourceTableId, pIdx: s },
+    [targetKey]: { tableId: rel.targetTableId, pIdx: t }
+  })));
+  return pairs.length;
+};
+
+// File name (without extension) of the junction CSV exported for an N:M relationship with no junction table.
+export const getJunctionFileName = (rel: Relationship, tables: Table[]): string => {
+  const name = (id: string) => tables.find(t => t.id === id)?.name || id;
+  return `${name(rel.sourceTableId)}_${name(rel.targetTableId)}`;
+};
+
+/**
+ * Self-referencing LINKED column: picks the parent of row `rowIdx` among the table's earlier rows, so
+ * the links always form a forest and never a cycle. A row becomes a root with probability rootRatio,
+ * or when every earlier row is on the last level or already has branchingFactor children.
+ * Roots get an empty parent.
+ */
+const pickHierarchyParent = (
+  col: Column, 
+  table: Table, 
+  rowIdx: number, 
+  tableData: Record<string, string[]>, 
+  runContext: RunContext
+): string => {
+  const cfg = col.rule.config?.hierarchy || {};
+  const maxDepth = Math.max(1, cfg.maxDepth ?? 5);
+  const branching = Math.max(1, cfg.branchingFactor ?? 5);
+  if (!runContext.hierarchies[col.id]) runContext.hierarchies[col.id] = { parentOf: [], depth: [], children: [] };
+  const tree = runContext.hierarchies[col.id];
+
+  // Decided once per row, so redraws for unique keys keep the same tree
+  if (tree.parentOf[rowIdx] === undefined) {
+    let parent = -1;
+    if (rowIdx > 0 && random() >= (cfg.rootRatio ?? 0.1)) {
+      parent = pickFreeRow(rowIdx, j => tree.depth[j] < maxDepth - 1 && tree.children[j] < branching) ?? -1;
+      if (parent === -1) {
+        runContext.warnings.add(`"${table.name}.${col.name}": the hierarchy is full (${maxDepth} levels, ${branching} children per row); extra rows became roots.`);
+      }
+    }
+    tree.parentOf[rowIdx] = parent;
+    tree.depth[rowIdx] = parent === -1 ? 0 : tree.depth[parent] + 1;
+    tree.children[rowIdx] = 0;
+    if (parent !== -1) tree.children[parent]++;
+  }
+
+  const parent = tree.parentOf[rowIdx];
+  const keyColId = col.rule.config?.linkedColumnId || table.columns[0].id;
+  return parent === -1 ? "" : tableData[keyColId][parent];
+};
+
+/**
+ * Anchored columns are generated once per root thread and reused by every descendant row.
+ * A global-anchor reference file pins one value per thread for every column that draws from it.
+ */
+const getAnchorKey = (col: Column, referenceFiles: ReferenceFile[]): string | undefined => {
+  const cfg = col.rule.config;
+  if (col.rule.type === GenerationStrategyType.REFERENCE && cfg?.referenceFileId) {
+    const ref = referenceFiles.find(rf => rf.id === cfg.referenceFileId);
+    if (ref?.isGlobalAnchor) return `ref:${ref.id}`;
+  }
+  return cfg?.isAnchor ? `col:${col.id}` : undefined;
+};
+
+/**
+ * Every other table a table reads while it is generated. Plain foreign keys (LINKED and RANDOM_RECORD
+ * columns outside keys, Relationship tables and driving-parent links) are deferrable: two-pass mode may
+ * leave them empty and back-fill them. LINKED columns sharing candidate tables are deferred together.
+ */
+const getTableDependencies = (table: Table, allTables: Table[]): TableDependency[] => {
+  const deps: TableDependency[] = [];
+  const keyColIds = new Set(getUniqueConstraints(table).flat());
+  const isLink = (col: Column) => col.rule.type === GenerationStrategyType.LINKED || col.rule.type === GenerationStrategyType.RANDOM_RECORD;
+  const isPlainForeignKey = (col: Column) => isLink(col) && !keyColIds.has(col.id) && table.tableType !== 'Relationship' 
+    && !getLinkCandidates(col).some(c => c.tableId === table.genSettings?.drivingParentTableId);
+  const add = (to: string | undefined, colIds: string[], deferrable = false) => {
+    if (to && to !== table.id && allTables.some(t => t.id === to)) deps.push({ from: table.id, to, colIds, deferrable });
+  };
+
+  // Links inside CONDITIONAL branches are never deferred: back-filling only knows plain LINKED columns
+  const variants = table.columns.flatMap(getRuleVariants);
+  variants.forEach(col => {
+    const config = col.rule.config;
+    if (col.rule.type === GenerationStrategyType.LINKED) {
+      const candidateKey = getCandidateKey(getLinkCandidates(col));
+      const group = variants.filter(c => c.rule.type === GenerationStrategyType.LINKED && getCandidateKey(getLinkCandidates(c)) === candidateKey);
+      const deferrable = group.every(c => isPlainForeignKey(c) && table.columns.includes(c));
+      getLinkCandidates(col).forEach(c => add(c.tableId, Array.from(new Set(group.map(g => g.id))), deferrable));
+    }
+    if (col.rule.type === GenerationStrategyType.CONDITIONAL) {
+      (config?.branches || []).forEach(b => add(b.when.tableId, [col.id]));
+    }
+    if (col.rule.type === GenerationStrategyType.FORMULA) {
+      getFormulaColumns(col.rule, table, allTables).forEach(ref => add(ref.table.id, [col.id]));
+    }
+    if (col.rule.type === GenerationStrategyType.TEMPLATE) {
+      getTemplateColumns(col.rule, table, allTables).forEach(ref => add(ref.table.id, [col.id]));
+    }
+    if (col.rule.type === GenerationStrategyType.RANDOM_RECORD) {
+      getLinkCandidates(col).forEach(c => add(c.tableId, [col.id], isPlainForeignKey(col) && table.columns.includes(col)));
+    }
+    if (col.rule.type === GenerationStrategyType.DATE && config?.dateLogic) {
+       add(config.dateLogic.refTable1, [col.id]);
+       add(config.dateLogic.refTable2, [col.id]);
+    }
+    if (config?.relativeDateConfig?.isLinkedSource) {
+       const sourceTable = allTables.find(t => t.columns.some(c => c.id === config.relativeDateConfig!.sourceColumnId));
+       add(sourceTable?.id, [col.id]);
+    }
+    if (col.rule.type === GenerationStrategyType.CALCULATE_DURATION) {
+       add(config?.startTableId, [col.id]);
+       add(config?.endTableId, [col.id]);
+    }
+  });
+  return deps;
+};
+
+// First dependency cycle between tables as its chain of dependencies, ignoring dependencies for which `skip` holds.
+const findTableCycle = (allTables: Table[], skip: (dep: TableDependency) => boolean): TableDependency[] | undefined => {
+  const done = new Set<string>();
+  const path: TableDependency[] = []; // Dependencies followed from the walk's start to the current table
+  const entered = new Map<string, number>(); // Maps TableID -> Path length when the walk entered it
+
+  const visit = (table: Table): TableDependency[] | undefined => {
+    entered.set(table.id, path.length);
+    for (const dep of getTableDependencies(table, allTables)) {
+      if (skip(dep) || done.has(dep.to)) continue;
+      if (entered.has(dep.to)) return [...path.slice(entered.get(dep.to)), dep];
+      path.push(dep);
+      const cycle = visit(allTables.find(t => t.id === dep.to)!);
+      path.pop();
+      if (cycle) return cycle;
+    }
+    entered.delete(table.id);
+    done.add(table.id);
+    return undefined;
+  };
+
+  for (const table of allTables) {
+    const cycle = done.has(table.id) ? undefined : visit(table);
+    if (cycle) return cycle;
+  }
+  return undefined;
+};
+
+export interface TableDependencyAnalysis {
+  cycles: string[][]; // Unresolved cycles as table names, the first table repeated at the end
+  deferredColumnIds: Set<string>; // Foreign keys two-pass mode back-fills to break the other cycles
+}
+
+/**
+ * Finds the dependency cycles between tables. In two-pass mode each cycle is broken at a plain
+ * foreign key, preferring the one that closes it; cycles without such a key are still reported.
+ */
+export const analyzeTableDependencies = (tables: Table[], twoPass = false): TableDependencyAnalysis => {
+  const cycles: string[][] = [];
+  const deferredColumnIds = new Set<string>();
+  const reported = new Set<string>(); // One dependency per reported cycle, skipped so the search moves on
+  const depKey = (dep: TableDependency) => `${dep.from}>${dep.to}:${dep.colIds.join('+')}`;
+  const nameOf = (tableId: string) => tables.find(t => t.id === tableId)?.name || tableId;
+
+  for (;;) {
+    const cycle = findTableCycle(tables, dep => reported.has(depKey(dep)) || dep.colIds.every(id => deferredColumnIds.has(id)));
+    if (!cycle) break;
+    const breakable = twoPass ? [...cycle].reverse().find(dep => dep.deferrable) : undefined;
+    if (breakable) {
+      breakable.colIds.forEach(id => deferredColumnIds.add(id));
+    } else {
+      cycles.push([...cycle.map(dep => nameOf(dep.from)), nameOf(cycle[0].from)]);
+      reported.add(depKey(cycle[cycle.length - 1]));
+    }
+  }
+  return { cycles, deferredColumnIds };
+};
+
+// Higher Table.generationPriority first; unset counts as 0 and equal priorities keep declaration order.
+const byGenerationPriority = (a: Table, b: Table): number => (b.generationPriority ?? 0) - (a.generationPriority ?? 0);
+
+/**
+ * Orders tables so each comes after the tables it reads. Where dependencies leave a choice,
+ * higher-priority tables (and their dependencies) are generated first.
+ */
+const sortTablesByDependency = (tables: Table[], allTables: Table[], deferredColumnIds: Set<string>): Table[] => {
+  const sorted: Table[] = [];
+  const visited = new Set<string>();
+  const visiting = new Set<string>();
+
+  const visit = (table: Table) => {
+    if (visited.has(table.id)) return;
+    // Cycles are rejected (or broken by deferring a foreign key) before generation starts
+    if (visiting.has(table.id)) return;
+
+    visiting.add(table.id);
+    const depTableIds = new Set(getTableDependencies(table, allTables)
+      .filter(dep => !dep.colIds.every(id => deferredColumnIds.has(id)))
+      .map(dep => dep.to));
+    allTables.filter(t => depTableIds.has(t.id)).sort(byGenerationPriority).forEach(visit);
 
     visiting.delete(table.id);
     visited.add(table.id);
     sorted.push(table);
   };
 
-  tables.forEach(t => visit(t));
+  [...tables].sort(byGenerationPriority).forEach(visit);
   return sorted;
 };
 
+// Root tables (fixed row count) in generation order.
+const getRootTables = (allTables: Table[], deferredColumnIds: Set<string>): Table[] => 
+  sortTablesByDependency(allTables.filter(t => !t.genSettings || t.genSettings.mode === 'fixed'), allTables, deferredColumnIds);
+
+// Tables generated per row of `parentTable`, in generation order.
+const getChildTables = (parentTable: Table, allTables: Table[], deferredColumnIds: Set<string>): Table[] => {
+  const childTables = allTables.filter(t => t.genSettings?.drivingParentTableId === parentTable.id);
+  // The sort also emits the children's dependencies (often the parent itself); keep only the children.
+  return sortTablesByDependency(childTables, allTables, deferredColumnIds).filter(t => childTables.includes(t));
+};
+
+export interface GenerationPlanStep {
+  table: Table;
+  depth: number; // 0 for root tables, n for tables generated per row of a depth n-1 table
+}
+
+/**
+ * The order generateAndDownload will fill tables in: each root table followed by the tables
+ * it drives, depth first. Shown before generation so priorities can be checked.
+ */
+export const getGenerationPlan = (tables: Table[], twoPass = false): GenerationPlanStep[] => {
+  const { deferredColumnIds } = analyzeTableDependencies(tables, twoPass);
+  const steps: GenerationPlanStep[] = [];
+  const addWithChildren = (table: Table, depth: number, path: string[]) => {
+    steps.push({ table, depth });
+    getChildTables(table, tables, deferredColumnIds)
+      .filter(child => !path.includes(child.id))
+      .forEach(child => addWithChildren(child, depth + 1, [...path, child.id]));
+  };
+  getRootTables(tables, deferredColumnIds).forEach(root => addWithChildren(root, 0, [root.id]));
+  return steps;
+};
+
+/**
+ * Second pass of two-pass mode: fills the foreign keys deferred to break table cycles, now that
+ * every table has its rows. LINKED columns sharing candidate tables still share one parent per row,
+ * and 1:1 links still draw parents without replacement.
+ */
+const backfillDeferredLinks = (
+  tables: Table[],
+  globalStore: TableDataStore,
+  relationships: Relationship[],
+  runContext: RunContext
+) => {
+  const rowCount = (tableId: string) => Object.values(globalStore[tableId] || {})[0]?.length || 0;
+  tables.forEach(table => {
+    const cols = table.columns.filter(c => runContext.deferredColumnIds.has(c.id));
+    for (let rowIdx = 0; rowIdx < rowCount(table.id) && cols.length > 0; rowIdx++) {
+      const decisions: Record<string, LinkDecision | undefined> = {};
+      const row = Object.fromEntries(table.columns.map(c => [c.id, globalStore[table.id][c.id][rowIdx]]));
+      cols.forEach(col => {
+        if (hasEmptiness(col) && isLeftEmpty(col, row)) {
+          globalStore[table.id][col.id][rowIdx] = getEmptyToken(col);
+          return;
+        }
+        if (col.rule.type === GenerationStrategyType.RANDOM_RECORD) {
+          globalStore[table.id][col.id][rowIdx] = pickRandomRecord(col, table, { anchors: {}, registry: {} }, globalStore, runContext);
+          return;
+        }
+        const candidates = getLinkCandidates(col);
+        const candidateKey = getCandidateKey(candidates);
+        if (!(candidateKey in decisions)) {
+          const oneToOne = getOneToOneRelationship(table, col, relationships);
+          const sel = getRandom(candidates.filter(c => rowCount(c.tableId) > 0));
+          const consumedKey = oneToOne && sel ? `${oneToOne.id}:${sel.tableId}` : undefined;
+          const consumed = consumedKey ? (runContext.consumedRecords[consumedKey] || (runContext.consumedRecords[consumedKey] = new Set())) : undefined;
+          const pIdx = sel && pickFreeRow(rowCount(sel.tableId), idx => !consumed?.has(idx));
+          decisions[candidateKey] = sel && pIdx !== undefined ? { tableId: sel.tableId, pIdx } : undefined;
+          if (pIdx !== undefined) consumed?.add(pIdx);
+          else if (oneToOne) runContext.warnings.add(`"${table.name}.${col.name}" is 1:1 but has more rows than its parents; unmatched rows are NOT_FOUND.`);
+        }
+        const decision = decisions[candidateKey];
+        if (!decision) {
+          globalStore[table.id][col.id][rowIdx] = "NOT_FOUND";
+          return;
+        }
+        const sourceData = globalStore[decision.tableId];
+        const sourceColId = candidates.find(c => c.tableId === decision.tableId)?.colId || Object.keys(sourceData)[0];
+        globalStore[table.id][col.id][rowIdx] = sourceData[sourceColId][decision.pIdx] || "LINK_ERROR";
+      });
+    }
+  });
+};
+
 /**
  * --- CORE GENERATION ENGINE ---
  * Generates a single row for a specific table.
@@ -205,6 +1479,7 @@ const generateRow = (
   globalDateFormat: string,
   allTables: Table[],
   policies: LifecyclePolicy[],
+  runContext: RunContext,
   drivingParentIdx?: number
 ): number => {
   const tableData = globalStore[table.id];
@@ -217,7 +1492,7 @@ const generateRow = (
     const policy = (policies || []).find(p => p.id === table.lifecyclePolicyId);
     if (policy && policy.states) {
       const sortedStates = [...policy.states].sort((a, b) => (a.sequence || 0) - (b.sequence || 0));
-      let floorDate = new Date('2026-01-15'); // Current system date as base
+      let floorDate = new Date(dateWindow.start);
       
       // Determine if there is a parent start date to respect
       Object.entries(threadContext.registry).forEach(([pTableId, indices]) => {
@@ -236,42 +1511,144 @@ const generateRow = (
         });
       });
 
-      let currentPointer = new Date(floorDate.getTime() + (Math.random() * 120 * 60000));
-      sortedStates.forEach(state => {
-        const dur = getRandomInt(state.minDurationDays, state.maxDurationDays);
+      // The whole plan fits between the floor and the end of the horizon: records enter their first
+      // state at a random point that leaves room for the rest, and plans longer than the window
+      // are scaled down to fit it.
+      const floorTime = Math.min(floorDate.getTime(), dateWindow.end);
+      const gap = 60000; // 1 minute between states
+      const durations = sortedStates.map(state => getRandomInt(state.minDurationDays, state.maxDurationDays) * 86400000);
+      const span = durations.reduce((a, b) => a + b, 0) + gap * Math.max(0, durations.length - 1);
+      const available = dateWindow.end - floorTime;
+      const scale = span > available ? available / span : 1;
+      let currentPointer = floorTime + random() * Math.max(0, available - span * scale);
+      const windows = sortedStates.map((state, i) => {
         const sStart = new Date(currentPointer);
-        const sEnd = new Date(currentPointer);
-        sEnd.setDate(sEnd.getDate() + dur);
-        
-        const startCol = table.columns.find(c => c.name === `state[${state.name}].start`);
-        if (startCol) newRow[startCol.id] = formatDate(sStart, globalDateFormat);
-        const endCol = table.columns.find(c => c.name === `state[${state.name}].end`);
-        if (endCol) newRow[endCol.id] = formatDate(sEnd, globalDateFormat);
-        
-        currentPointer = new Date(sEnd.getTime() + 60000); // 1 minute gap
+        const sEnd = new Date(currentPointer + durations[i] * scale);
+        currentPointer = sEnd.getTime() + gap * scale;
+        return { name: state.name, start: sStart, end: sEnd };
       });
+
+      // Weighted lifecycle status: pick the target state up front and move the plan so "now" falls inside it.
+      // What lies before "now" is shortened to start after the floor and what lies after it to end
+      // within the horizon, so the target state is kept. Only when "now" is outside that range does
+      // the plan move as close as it can, and the run reports it.
+      const statusWeights = table.columns.find(c => c.name === 'current')?.rule.config?.optionWeights;
+      let placedState: typeof windows[number] | undefined;
+      if (statusWeights && windows.length > 0) {
+        const targetName = getWeightedRandom(windows.map(w => w.name), statusWeights);
+        const target = windows.find(w => w.name === targetName)!;
+        const firstStart = windows[0].start.getTime();
+        const lastEnd = windows[windows.length - 1].end.getTime();
+        if (floorTime <= runNow && runNow <= dateWindow.end) {
+          const pivot = target.start.getTime() + random() * (target.end.getTime() - target.start.getTime());
+          const before = pivot - firstStart;
+          const after = lastEnd - pivot;
+          const beforeScale = before > runNow - floorTime ? (runNow - floorTime) / before : 1;
+          const afterScale = after > dateWindow.end - runNow ? (dateWindow.end - runNow) / after : 1;
+          const place = (time: number) => new Date(time <= pivot ? runNow - (pivot - time) * beforeScale : runNow + (time - pivot) * afterScale);
+          windows.forEach(w => {
+            w.start = place(w.start.getTime());
+            w.end = place(w.end.getTime());
+          });
+          placedState = target;
+        } else {
+          runContext.warnings.add(`"${table.name}": some records could not be placed in their weighted status because "now" lies outside the project horizon.`);
+          const shift = Math.min(Math.max(runNow - target.start.getTime(), floorTime - firstStart), dateWindow.end - lastEnd);
+          windows.forEach(w => {
+            w.start = new Date(w.start.getTime() + shift);
+            w.end = new Date(w.end.getTime() + shift);
+          });
+        }
+      }
+
+      // The current state is the weighted target once placed, else the one whose window contains "now"; before the first window
+      // the record is still in its first state, after the last it stays in the final one.
+      const nowTime = runNow;
+      const current = placedState || windows.find(w => w.start.getTime() <= nowTime && nowTime <= w.end.getTime())
+        || (windows.length > 0 && nowTime < windows[0].start.getTime() ? windows[0] : windows[windows.length - 1]);
+
+      const setLifecycleCol = (name: string, value: string) => {
+        const lcCol = table.columns.find(c => c.name === name);
+        if (lcCol) newRow[lcCol.id] = value;
+      };
+      const fillWindow = (prefix: string, w: { start: Date, end: Date }) => {
+        setLifecycleCol(`${prefix}.start`, formatDate(w.start, globalDateFormat));
+        setLifecycleCol(`${prefix}.end`, formatDate(w.end, globalDateFormat));
+        // "actual" is only known once the state has been reached
+        setLifecycleCol(`${prefix}.actual`, w.start.getTime() <= nowTime ? formatDate(w.start, globalDateFormat) : "");
+        setLifecycleCol(`${prefix}.duration`, Math.round((w.end.getTime() - w.start.getTime()) / 86400000).toString());
+      };
+
+      windows.forEach(w => fillWindow(`state[${w.name}]`, w));
+      if (current) {
+        setLifecycleCol('current', current.name);
+        fillWindow('current', current);
+      }
     }
   }
 
   // 2. POLYMORPHIC LINKING & COLUMN GENERATION
-  const linkDecisions: Record<string, { tableId: string, pIdx: number }> = {};
+  // Relationship tables follow the batch's pre-planned parent combinations, which never repeat
+  const linkDecisions: Record<string, LinkDecision> = runContext.linkPlans[`${table.id}:${getBatchScope(drivingParentIdx)}`]?.shift() || {};
+  const plannedLinkKeys = new Set(Object.keys(linkDecisions));
+  // Thread anchors first pinned by this row; a redraw may re-pin them, but not anchors inherited from earlier rows
+  const pinnedAnchors = new Set<string>();
 
-  for (const col of table.columns) {
-    if (newRow[col.id] !== undefined) continue; // Skip if already handled by lifecycle
+  // Columns filled by the lifecycle block above are never regenerated
+  const lifecycleColIds = new Set(Object.keys(newRow));
+  // Columns left empty in this row; keys containing one are exempt from uniqueness, like SQL NULLs
+  const emptyColIds = new Set<string>();
+  // Quota slot each column holds in this row. A redraw hands it back first, so every row uses exactly one
+  const quotaSlots = new Map<string, string | null>();
+  const releaseQuotaSlot = (colId: string, pool: (string | null)[]) => {
+    if (!quotaSlots.has(colId)) return;
+    pool.splice(pool.length > 0 ? getRandomInt(1, pool.length) : 0, 0, quotaSlots.get(colId)!);
+    quotaSlots.delete(colId);
+  };
+
+  const generateColumn = (col: Column) => {
     const cfg = col.rule.config;
+    const leaveEmpty = () => {
+      newRow[col.id] = getEmptyToken(col);
+      emptyColIds.add(col.id);
+    };
+
+    // Two-pass mode: foreign keys that close a table cycle stay empty until every table is generated
+    if (runContext.deferredColumnIds.has(col.id)) {
+      newRow[col.id] = "";
+      return;
+    }
+
+    // Optional fields: empty when the column's condition fails or its null rate hits.
+    // Quota columns plan their null rate with the batch
+    const quotaPool = hasQuotas(col) ? runContext.quotaPools[`${col.id}:${getBatchScope(drivingParentIdx)}`] : undefined;
+    const usesQuotaPool = !!quotaPool && (quotaPool.length > 0 || quotaSlots.has(col.id));
+    if (hasEmptiness(col) && isLeftEmpty(col, newRow, !usesQuotaPool)) {
+      if (quotaPool) releaseQuotaSlot(col.id, quotaPool);
+      leaveEmpty();
+      return;
+    }
+    emptyColIds.delete(col.id);
+
+    // Conditional rules: generate with the first branch whose predicate holds, else the default rule
+    if (col.rule.type === GenerationStrategyType.CONDITIONAL) {
+      const branch = (cfg?.branches || []).find(b => evaluatePredicate(b.when, table.id, newRow, globalStore, threadContext, linkDecisions));
+      generateColumn({ ...col, rule: branch?.rule || cfg?.defaultRule || { type: GenerationStrategyType.COPY } });
+      return;
+    }
 
     if (col.rule.type === GenerationStrategyType.LINKED) {
-      // Determine link sources
-      interface LinkCandidate { tableId: string; colId?: string; }
-      const candidates: LinkCandidate[] = [];
-      if (cfg?.linkedSources) {
-        candidates.push(...cfg.linkedSources.map(s => ({ tableId: s.tableId, colId: s.columnId })));
-      }
-      if (cfg?.linkedTableId && !candidates.some(c => c.tableId === cfg.linkedTableId)) {
-        candidates.push({ tableId: cfg.linkedTableId, colId: cfg.linkedColumnId });
-      }
+      const candidates = getLinkCandidates(col);
+      const candidateKey = getCandidateKey(candidates);
 
-      const candidateKey = JSON.stringify(candidates.map(c => c.tableId).sort());
+      // Self-referencing column: build a tree over this table's earlier rows
+      if (candidates.length === 1 && candidates[0].tableId === table.id) {
+        newRow[col.id] = pickHierarchyParent(col, table, rowIdx, tableData, runContext);
+        return;
+      }
+      // 1:1 links draw parent rows without replacement
+      const oneToOne = getOneToOneRelationship(table, col, relationships);
+      const isFree = (tableId: string) => (pIdx: number) => !oneToOne || !runContext.consumedRecords[`${oneToOne.id}:${tableId}`]?.has(pIdx);
       let selectedTableId: string | undefined;
       let selectedPIdx: number | undefined;
       let selectedColId: string | undefined;
@@ -287,31 +1664,40 @@ const generateRow = (
       if (!selectedTableId && candidates.length > 0) {
         // Priority 1: Driving Parent
         let selCand = candidates.find(c => c.tableId === table.genSettings?.drivingParentTableId);
-        if (selCand && drivingParentIdx !== undefined) {
+        if (selCand && drivingParentIdx !== undefined && isFree(selCand.tableId)(drivingParentIdx)) {
            selectedPIdx = drivingParentIdx;
            selectedTableId = selCand.tableId;
            selectedColId = selCand.colId;
         } else {
            // Priority 2: Current Thread Context
-           const regCand = candidates.filter(c => (threadContext.registry[c.tableId] || []).length > 0);
+           const regCand = candidates.filter(c => (threadContext.registry[c.tableId] || []).some(isFree(c.tableId)));
            if (regCand.length > 0) {
              const sel = getRandom(regCand);
              selectedTableId = sel.tableId;
-             selectedPIdx = getRandom(threadContext.registry[selectedTableId]);
+             selectedPIdx = getRandom(threadContext.registry[selectedTableId].filter(isFree(selectedTableId)));
              selectedColId = sel.colId;
            } else {
              // Priority 3: Global Random
-             const valid = candidates.filter(c => globalStore[c.tableId] && Object.values(globalStore[c.tableId])[0]?.length > 0);
-             if (valid.length > 0) {
-               const sel = getRandom(valid);
+             const rowCount = (tableId: string) => Object.values(globalStore[tableId] || {})[0]?.length || 0;
+             const valid = candidates.filter(c => rowCount(c.tableId) > 0);
+             const sel = getRandom(valid);
+             const pIdx = sel && pickFreeRow(rowCount(sel.tableId), isFree(sel.tableId));
+             if (sel && pIdx !== undefined) {
                selectedTableId = sel.tableId;
-               selectedPIdx = getRandomInt(0, Object.values(globalStore[selectedTableId])[0].length - 1);
+               selectedPIdx = pIdx;
                selectedColId = sel.colId;
              }
            }
         }
         if (selectedTableId && selectedPIdx !== undefined) {
           linkDecisions[candidateKey] = { tableId: selectedTableId, pIdx: selectedPIdx };
+          if (oneToOne) {
+            const consumedKey = `${oneToOne.id}:${selectedTableId}`;
+            if (!runContext.consumedRecords[consumedKey]) runContext.consumedRecords[consumedKey] = new Set();
+            runContext.consumedRecords[consumedKey].add(selectedPIdx);
+          }
+        } else if (oneToOne) {
+          runContext.warnings.add(`"${table.name}.${col.name}" is 1:1 but has more rows than its parents; unmatched rows are NOT_FOUND.`);
         }
       }
 
@@ -322,34 +1708,149 @@ const generateRow = (
       } else {
         newRow[col.id] = "NOT_FOUND";
       }
-      continue;
+      return;
+    }
+
+    // Thread anchors: reuse the value already pinned for this root thread
+    const anchorKey = getAnchorKey(col, referenceFiles);
+    if (anchorKey && threadContext.anchors[anchorKey] !== undefined) {
+      newRow[col.id] = threadContext.anchors[anchorKey];
+      return;
+    }
+
+    // Relative dates take precedence over the column's own date strategy
+    if (col.type === DataType.DATE && cfg?.relativeDateConfig?.sourceColumnId) {
+      const date = resolveRelativeDate(col, table.id, newRow, globalStore, allTables, globalDateFormat, threadContext, linkDecisions);
+      if (date === undefined) leaveEmpty();
+      else newRow[col.id] = date;
+      return;
+    }
+
+    // Pre-allocated quota slot for this row (falls back to a normal draw once the batch is used up)
+    let quotaValue: string | null | undefined;
+    if (quotaPool && usesQuotaPool) {
+      releaseQuotaSlot(col.id, quotaPool);
+      quotaValue = quotaPool.shift();
+      if (quotaValue !== undefined) quotaSlots.set(col.id, quotaValue);
+    }
+    if (quotaValue === null) {
+      leaveEmpty();
+      return;
     }
 
     // Standard strategies
-    let val = "";
+    let val: string | undefined = "";
     switch (col.rule.type) {
       case GenerationStrategyType.PATTERN: 
         val = generateId(cfg?.pattern || "ID-#", rowIdx + 1); 
         break;
       case GenerationStrategyType.DATE: 
-        val = resolveDate(cfg?.dateLogic, table.id, rowIdx, tableData, globalStore, globalDateFormat, threadContext); 
+        val = resolveDate(cfg?.dateLogic, table.id, newRow, globalStore, globalDateFormat, threadContext, linkDecisions); 
+        break;
+      case GenerationStrategyType.CALCULATE_DURATION:
+        val = calculateDuration(col, table.id, newRow, globalStore, threadContext, linkDecisions);
+        break;
+      case GenerationStrategyType.RANDOM_RECORD:
+        val = pickRandomRecord(col, table, threadContext, globalStore, runContext);
         break;
       case GenerationStrategyType.REFERENCE:
         const ref = referenceFiles.find(rf => rf.id === cfg?.referenceFileId);
-        val = ref ? getRandom(ref.values) : "REF_ERROR";
+        val = ref ? (quotaValue ?? getRandom(ref.values)) : "REF_ERROR";
         break;
       case GenerationStrategyType.RANDOM:
-        if (col.type === DataType.DATE) {
+        if (quotaValue !== undefined) {
+          val = quotaValue;
+        } else if (col.type === DataType.DATE) {
           val = formatDate(generateRandomDate(), globalDateFormat);
+        } else if (col.type === DataType.MULTI_SELECT) {
+          val = generateMultiSelect(col);
+        } else if (col.type === DataType.REVISION) {
+          const groupParent = drivingParentIdx !== undefined ? `parent:${drivingParentIdx}` : undefined;
+          val = generateRevision(col, newRow, groupParent, runContext);
         } else {
-          val = getRandom(cfg?.options || ["Value"]);
+          val = getWeightedRandom(cfg?.options || ["Value"], cfg?.optionWeights);
         }
         break;
+      case GenerationStrategyType.COPY:
+        val = copySample(col, rowIdx);
+        break;
+      case GenerationStrategyType.NUMERIC:
+        val = generateNumber(col);
+        break;
+      case GenerationStrategyType.FORMULA:
+        val = computeFormula(col, table, newRow, globalStore, allTables, globalDateFormat, threadContext, linkDecisions);
+        break;
+      case GenerationStrategyType.TEMPLATE:
+        val = renderColumnTemplate(col, table, rowIdx, newRow, globalStore, allTables, threadContext, linkDecisions);
+        break;
       default: 
         val = col.sampleValues[0] || "Sample";
     }
+    // Dates and durations derived from an empty cell stay empty
+    if (val === undefined) {
+      leaveEmpty();
+      return;
+    }
     newRow[col.id] = val;
+    if (anchorKey) {
+      threadContext.anchors[anchorKey] = val;
+      pinnedAnchors.add(anchorKey);
+    }
+  };
+
+  for (const col of runContext.columnOrders[table.id]) {
+    if (newRow[col.id] !== undefined) continue; // Skip if already handled by lifecycle
+    generateColumn(col);
+  }
+
+  // 3. UNIQUE KEYS: regenerate the offending columns (and the columns derived from them) until every key is new
+  const constraints = getUniqueConstraints(table);
+  const keyOf = (colIds: string[]) => colIds.map(id => newRow[id]).join('\u001f');
+  const order = runContext.columnOrders[table.id];
+  const linkKeyOf = (col: Column) => col.rule.type === GenerationStrategyType.LINKED ? getCandidateKey(getLinkCandidates(col)) : undefined;
+  // Lifecycle values and anchors inherited from earlier rows of the thread cannot change
+  const isFixed = (colId: string) => {
+    const anchorKey = getAnchorKey(table.columns.find(c => c.id === colId)!, referenceFiles);
+    return lifecycleColIds.has(colId) || (!!anchorKey && !pinnedAnchors.has(anchorKey) && threadContext.anchors[anchorKey] !== undefined);
+  };
+  for (let attempt = 1; ; attempt++) {
+    const violated = constraints.find(colIds => !colIds.some(id => emptyColIds.has(id)) && runContext.uniqueKeys[`${table.id}:${colIds.join('+')}`]?.has(keyOf(colIds)));
+    if (!violated) break;
+
+    const stale = new Set(violated.filter(id => !isFixed(id)));
+    if (stale.size === 0 || attempt > MAX_UNIQUE_ATTEMPTS) {
+      const names = violated.map(id => table.columns.find(c => c.id === id)?.name).join(' + ');
+      throw new Error(`Could not generate a unique ${names} for row ${rowIdx + 1} of "${table.name}" (${attempt - 1} redraws). Its possible values are too few for the requested row count.`);
+    }
+
+    // A redrawn link picks its parent again (1:1 parents are handed back), together with every
+    // column sharing its candidate tables. Relationship tables keep their planned combination.
+    const releasedLinkKeys = new Set(order.filter(col => stale.has(col.id)).map(linkKeyOf).filter(key => key !== undefined && !plannedLinkKeys.has(key)));
+    order.forEach(col => {
+      const key = linkKeyOf(col);
+      if (!key || !releasedLinkKeys.has(key) || !linkDecisions[key]) return;
+      const oneToOne = getOneToOneRelationship(table, col, relationships);
+      if (oneToOne) runContext.consumedRecords[`${oneToOne.id}:${linkDecisions[key].tableId}`]?.delete(linkDecisions[key].pIdx);
+      delete linkDecisions[key];
+    });
+    order.forEach(col => {
+      const key = linkKeyOf(col);
+      if (key && releasedLinkKeys.has(key)) stale.add(col.id);
+    });
+    order.forEach(col => {
+      if (getColumnDependencies(col, table, allTables).some(id => stale.has(id)) && !isFixed(col.id)) stale.add(col.id);
+    });
+    order.filter(col => stale.has(col.id)).forEach(col => {
+      const anchorKey = getAnchorKey(col, referenceFiles);
+      if (anchorKey && pinnedAnchors.has(anchorKey)) delete threadContext.anchors[anchorKey];
+      generateColumn(col);
+    });
   }
+  constraints.filter(colIds => !colIds.some(id => emptyColIds.has(id))).forEach(colIds => {
+    const key = `${table.id}:${colIds.join('+')}`;
+    if (!runContext.uniqueKeys[key]) runContext.uniqueKeys[key] = new Set();
+    runContext.uniqueKeys[key].add(keyOf(colIds));
+  });
 
   // Push to store
   for (const col of table.columns) {
@@ -376,13 +1877,23 @@ const generateRecursiveDescendants = (
   relationships: Relationship[], 
   referenceFiles: ReferenceFile[], 
   globalDateFormat: string, 
-  policies: LifecyclePolicy[]
+  policies: LifecyclePolicy[],
+  runContext: RunContext
 ) => {
-  const childTables = allTables.filter(t => t.genSettings?.drivingParentTableId === parentTable.id);
-  const sortedChildren = sortTablesByDependency(childTables, allTables);
+  const sortedChildren = getChildTables(parentTable, allTables, runContext.deferredColumnIds);
 
   for (const childTable of sortedChildren) {
-    const count = getRandomInt(childTable.genSettings?.minPerParent || 1, childTable.genSettings?.maxPerParent || 3);
+    // A 1:1 child has at most one row per parent; unmatchedParentRate leaves some parents without one
+    const oneToOne = relationships.find(r => r.cardinality === '1:1' && 
+      ((r.sourceTableId === childTable.id && r.targetTableId === parentTable.id) || (r.targetTableId === childTable.id && r.sourceTableId === parentTable.id)));
+    // Per-parent counts are clamped to what every quota column can meet exactly (validated against min/max up front)
+    const quotaRange = childTable.columns.map(c => getQuotaRowRange(c, referenceFiles))
+      .reduce((a, r) => ({ min: Math.max(a.min, r.min), max: Math.min(a.max, r.max) }), { min: 0, max: Infinity });
+    const count = oneToOne 
+      ? (random() < (oneToOne.unmatchedParentRate ?? 0) ? 0 : 1) 
+      : Math.min(Math.max(getRandomInt(childTable.genSettings?.minPerParent || 1, childTable.genSettings?.maxPerParent || 3), quotaRange.min), quotaRange.max);
+    planQuotas(childTable, count, getBatchScope(parentIdx), referenceFiles, runContext);
+    planLinkCombinations(childTable, count, parentIdx, globalStore, runContext);
     for (let i = 0; i < count; i++) {
       const idx = generateRow(
         childTable, 
@@ -393,17 +1904,29 @@ const generateRecursiveDescendants = (
         globalDateFormat, 
         allTables, 
         policies, 
+        runContext,
         parentIdx
       );
       // Recurse deeper
-      generateRecursiveDescendants(childTable, idx, threadContext, allTables, globalStore, relationships, referenceFiles, globalDateFormat, policies);
+      generateRecursiveDescendants(childTable, idx, threadContext, allTables, globalStore, relationships, referenceFiles, globalDateFormat, policies, runContext);
     }
+    reportUnusedQuotas(childTable, getBatchScope(parentIdx), runContext);
   }
 };
 
+export interface GenerationOptions {
+  seed?: string; // Same project + same seed => identical CSVs (AI columns excepted)
+  startDate?: string; // Project horizon (YYYY-MM-DD); every generated date falls within it
+  endDate?: string;
+  preset?: GlobalSettings['preset'];
+  dynamicNow?: boolean; // true: "now" and presets follow the run date. false: "now" is pinned to referenceDate. Seeded runs always pin it
+  referenceDate?: string; // Pinned "now" (YYYY-MM-DD), clamped to the horizon; defaults to its middle
+  twoPass?: boolean; // Break table cycles at a plain foreign key, back-filled once every table is generated
+}
+
 /**
  * --- PUBLIC ENTRY POINT ---
- * Orchestrates the entire generation process.
+ * Orchestrates the entire generation process. Resolves to the run's non-fatal warnings.
  */
 export const generateAndDownload = async (
   tables: Table[], 
@@ -411,10 +1934,43 @@ export const generateAndDownload = async (
   referenceFiles: ReferenceFile[], 
   globalDateFormat: string, 
   onProgress: (msg: string) => void, 
-  policies: LifecyclePolicy[] = []
-) => {
+  policies: LifecyclePolicy[] = [],
+  options: GenerationOptions = {}
+): Promise<string[]> => {
   const zip = new JSZip();
+  const seed = options.seed?.trim();
+  random = seed ? createSeededRandom(seed) : Math.random;
+  // Seeded runs use the stored horizon and reference date so reruns on another day produce the same CSVs
+  const runDate = new Date();
+  const dynamicNow = !seed && (options.dynamicNow ?? true);
+  const range = (dynamicNow && resolvePresetRange(options.preset, runDate)) 
+    || { startDate: options.startDate || '2024-01-01', endDate: options.endDate || '2026-12-31' };
+  const start = new Date(range.startDate).getTime();
+  const end = new Date(range.endDate).getTime();
+  if (isNaN(start) || isNaN(end) || start > end) {
+    throw new Error(`Invalid project horizon: ${range.startDate} to ${range.endDate}`);
+  }
+  dateWindow = { start, end: end + 86399999 };
+  runNow = dynamicNow ? runDate.getTime() : new Date(resolveReferenceDate(range.startDate, range.endDate, options.referenceDate)).getTime();
+  const { cycles, deferredColumnIds } = analyzeTableDependencies(tables, options.twoPass);
+  if (cycles.length > 0) {
+    throw new Error(`Circular table dependency: ${cycles.map(c => c.join(' → ')).join('; ')}`);
+  }
   const globalStore: TableDataStore = {};
+  const runContext: RunContext = { consumedRecords: {}, revisionCounters: {}, columnOrders: {}, quotaPools: {}, uniqueKeys: {}, linkPlans: {}, warnings: new Set(), hierarchies: {}, deferredColumnIds };
+  // Formulas and templates are checked up front so a typo fails before any data is generated
+  tables.forEach(t => t.columns.flatMap(getRuleVariants).forEach(col => {
+    if (col.rule.type === GenerationStrategyType.FORMULA) {
+      const error = getFormulaError(col.rule.config?.formula || '', col, t, tables);
+      if (error) throw new Error(`Formula for "${t.name}.${col.name}": ${error}`);
+    }
+    if (col.rule.type === GenerationStrategyType.TEMPLATE) {
+      const error = getTemplateError(col.rule.config?.template || '', col, t, tables);
+      if (error) throw new Error(`Template for "${t.name}.${col.name}": ${error}`);
+    }
+  }));
+  // Resolve intra-row column order up front so dependency cycles fail before any data is generated
+  tables.forEach(t => { runContext.columnOrders[t.id] = orderColumnsForRow(t, tables); });
   
   // Initialize store
   tables.forEach(t => {
@@ -425,19 +1981,47 @@ export const generateAndDownload = async (
   });
 
   onProgress("Building dependency graph...");
-  const roots = sortTablesByDependency(tables.filter(t => !t.genSettings || t.genSettings.mode === 'fixed'), tables);
+  const roots = getRootTables(tables, deferredColumnIds);
   
   // Generate Roots and their Descendants
   for (const rootTable of roots) {
     onProgress(`Generating ${rootTable.name} and children...`);
-    const count = rootTable.genSettings?.fixedCount ?? 10;
+    // A Relationship table that stores an N:M relationship gets one row per planned link
+    const junctionRel = relationships.find(r => r.cardinality === 'N:M' && r.junction?.junctionTableId === rootTable.id);
+    let count = rootTable.genSettings?.fixedCount ?? 10;
+    if (junctionRel) {
+      count = planJunctionTable(rootTable, junctionRel, tables, globalStore, runContext);
+    } else {
+      planLinkCombinations(rootTable, count, undefined, globalStore, runContext);
+    }
+    planQuotas(rootTable, count, getBatchScope(), referenceFiles, runContext);
     for (let i = 0; i < count; i++) {
       const threadContext: ThreadContext = { anchors: {}, registry: {} };
-      const idx = generateRow(rootTable, threadContext, globalStore, relationships, referenceFiles, globalDateFormat, tables, policies);
-      generateRecursiveDescendants(rootTable, idx, threadContext, tables, globalStore, relationships, referenceFiles, globalDateFormat, policies);
+      const idx = generateRow(rootTable, threadContext, globalStore, relationships, referenceFiles, globalDateFormat, tables, policies, runContext);
+      generateRecursiveDescendants(rootTable, idx, threadContext, tables, globalStore, relationships, referenceFiles, globalDateFormat, policies, runContext);
     }
+    reportUnusedQuotas(rootTable, getBatchScope(), runContext);
   }
 
+  if (deferredColumnIds.size > 0) {
+    onProgress("Back-filling deferred links...");
+    backfillDeferredLinks(tables, globalStore, relationships, runContext);
+  }
+
+  // N:M relationships without a junction table in the schema are exported as their own link CSV
+  const autoJunctions = relationships
+    .filter(r => r.cardinality === 'N:M' && !tables.some(t => t.id === r.junction?.junctionTableId))
+    .map(rel => {
+      const source = tables.find(t => t.id === rel.sourceTableId);
+      const target = tables.find(t => t.id === rel.targetTableId);
+      if (!source || !target) return undefined;
+      onProgress(`Linking ${source.name} and ${target.name}...`);
+      const rowCount = (t: Table) => globalStore[t.id][t.columns[0]?.id]?.length || 0;
+      const pairs = planManyToManyPairs(rel, rowCount(source), rowCount(target), `"${source.name}" ↔ "${target.name}"`);
+      return { rel, source, target, pairs };
+    })
+    .filter(j => j !== undefined);
+
   // AI Refinement Phase
   for (const table of tables) {
     const aiCols = table.columns.filter(c => c.rule.type === GenerationStrategyType.AI);
@@ -456,12 +2040,17 @@ export const generateAndDownload = async (
         ctxStrings.push(`[${ctx}]`);
       }
       
-      globalStore[table.id][col.id] = await generateSyntheticDataBatch(
+      const refined = await generateSyntheticDataBatch(
         col.rule.config?.aiPrompt || "Generate a realistic value", 
         rowCount, 
         col.sampleValues, 
         ctxStrings
       );
+      // Cells left empty during generation stay empty
+      const emptyToken = getEmptyToken(col);
+      globalStore[table.id][col.id] = hasEmptiness(col) 
+        ? refined.map((val, r) => globalStore[table.id][col.id][r] === emptyToken ? emptyToken : val) 
+        : refined;
     }
   }
 
@@ -477,9 +2066,18 @@ export const generateAndDownload = async (
     });
     zip.file(`${table.name}.csv`, [header, ...rows].join("\n"));
   }
+  for (const { rel, source, target, pairs } of autoJunctions) {
+    const sourceCol = source.columns.find(c => c.id === rel.sourceColumnId) || source.columns[0];
+    const targetCol = target.columns.find(c => c.id === rel.targetColumnId) || target.columns[0];
+    const header = `"${source.name}_${sourceCol.name}","${target.name}_${targetCol.name}"`;
+    const rows = pairs.map(([s, t]) => [globalStore[source.id][sourceCol.id][s], globalStore[target.id][targetCol.id][t]]
+      .map(v => `"${(v || "").toString().replace(/"/g, '""')}"`).join(","));
+    zip.file(`${getJunctionFileName(rel, tables)}.csv`, [header, ...rows].join("\n"));
+  }
 
   const blob = await zip.generateAsync({ type: "blob" });
   const saveAsFunc = (FileSaver as any).saveAs || (FileSaver as any).default || FileSaver;
   saveAsFunc(blob, "data_export.zip");
-  onProgress("Done!");
+  onProgress(runContext.warnings.size > 0 ? `Done with ${runContext.warnings.size} warning(s).` : "Done!");
+  return Array.from(runContext.warnings);
 };
@@ -0,0 +1,132 @@
+/**
+ * --- STRING TEMPLATES ---
+ * Text composed from other columns (TEMPLATE strategy), for example:
+ *   {first|lower}.{last|lower}@acme.com
+ *   {projectCode}-{docType}-{seq|pad:4}
+ * A placeholder names a column (Table.column for a linked parent, seq for the row number)
+ * followed by |transforms applied left to right, with arguments after colons.
+ * {{ and }} write literal braces.
+ */
+
+export type TemplateSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'placeholder'; name: string; transforms: TemplateTransform[] };
+
+interface TemplateTransform {
+  name: string;
+  args: string[];
+}
+
+interface TransformDefinition {
+  minArgs: number;
+  maxArgs: number;
+  lengthArg?: boolean; // First argument is a character count
+  apply: (value: string, args: string[]) => string;
+}
+
+// Built-in placeholder for the row's position in its table (1-based), as in PATTERN ids
+export const TEMPLATE_SEQUENCE = 'seq';
+
+const slugify = (value: string): string => value
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+const TRANSFORMS: Record<string, TransformDefinition> = {
+  lower: { minArgs: 0, maxArgs: 0, apply: v => v.toLowerCase() },
+  lowercase: { minArgs: 0, maxArgs: 0, apply: v => v.toLowerCase() },
+  upper: { minArgs: 0, maxArgs: 0, apply: v => v.toUpperCase() },
+  uppercase: { minArgs: 0, maxArgs: 0, apply: v => v.toUpperCase() },
+  capitalize: { minArgs: 0, maxArgs: 0, apply: v => v.charAt(0).toUpperCase() + v.slice(1).toLowerCase() },
+  trim: { minArgs: 0, maxArgs: 0, apply: v => v.trim() },
+  slug: { minArgs: 0, maxArgs: 0, apply: slugify },
+  truncate: { minArgs: 1, maxArgs: 1, lengthArg: true, apply: (v, [n]) => v.slice(0, parseInt(n)) },
+  // pad:4 -> 0007, pad:6:_ -> ____ab (the second argument is the fill character)
+  pad: { minArgs: 1, maxArgs: 2, lengthArg: true, apply: (v, [n, fill]) => v.padStart(parseInt(n), fill || '0') },
+};
+
+export const TEMPLATE_TRANSFORM_NAMES = Object.keys(TRANSFORMS);
+
+const templateCache = new Map<string, TemplateSegment[]>();
+
+/**
+ * Splits a template into literal text and placeholders. Throws an Error naming the character
+ * position on unbalanced braces, empty placeholders and unknown or malformed transforms.
+ * Results are cached by source.
+ */
+export const parseTemplate = (source: string): TemplateSegment[] => {
+  const cached = templateCache.get(source);
+  if (cached) return cached;
+
+  const segments: TemplateSegment[] = [];
+  let text = '';
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if ((ch === '{' || ch === '}') && source[i + 1] === ch) {
+      text += ch;
+      i += 2;
+      continue;
+    }
+    if (ch === '}') throw new Error(`Unmatched "}" at character ${i + 1} (write }} for a literal brace)`);
+    if (ch !== '{') {
+      text += ch;
+      i++;
+      continue;
+    }
+
+    const close = source.indexOf('}', i);
+    if (close === -1) throw new Error(`Unclosed "{" at character ${i + 1}`);
+    const [name, ...transformParts] = source.slice(i + 1, close).split('|').map(part => part.trim());
+    if (!name) throw new Error(`Empty placeholder at character ${i + 1}`);
+    if (name.includes('{')) throw new Error(`Unclosed "{" at character ${i + 1}`);
+    const transforms = transformParts.map(part => {
+      const [transformName, ...args] = part.split(':').map(arg => arg.trim());
+      const def = TRANSFORMS[transformName.toLowerCase()];
+      if (!def) throw new Error(`Unknown transform "${transformName}" in {${name}} at character ${i + 1}`);
+      if (args.length < def.minArgs || args.length > def.maxArgs) {
+        throw new Error(`${transformName} takes ${def.minArgs === def.maxArgs ? def.minArgs : `${def.minArgs}-${def.maxArgs}`} argument(s) in {${name}} at character ${i + 1}`);
+      }
+      if (def.lengthArg && isNaN(parseInt(args[0]))) {
+        throw new Error(`${transformName} needs a length, e.g. ${transformName}:4, in {${name}} at character ${i + 1}`);
+      }
+      return { name: transformName.toLowerCase(), args };
+    });
+
+    if (text) segments.push({ kind: 'text', text });
+    text = '';
+    segments.push({ kind: 'placeholder', name, transforms });
+    i = close + 1;
+  }
+  if (text) segments.push({ kind: 'text', text });
+
+  templateCache.set(source, segments);
+  return segments;
+};
+
+// Column names a template reads, in order of appearance and without duplicates.
+export const getTemplateReferences = (segments: TemplateSegment[]): string[] =>
+  Array.from(new Set(segments.flatMap(s => s.kind === 'placeholder' ? [s.name] : [])));
+
+/**
+ * Fills a parsed template. `missing` reports placeholders that resolved to nothing; they are
+ * written as empty text.
+ */
+export const renderTemplate = (
+  segments: TemplateSegment[],
+  resolve: (name: string) => string | undefined
+): { text: string; missing: boolean } => {
+  let missing = false;
+  const text = segments.map(segment => {
+    if (segment.kind === 'text') return segment.text;
+    const value = resolve(segment.name);
+    if (value === undefined || value === '') {
+      missing = true;
+      return '';
+    }
+    return segment.transforms.reduce((v, t) => TRANSFORMS[t.name].apply(v, t.args), value);
+  }).join('');
+  return { text, missing };
+};
@@ -10,10 +10,12 @@ import {
   Users, Layers, Hash, Eye, EyeOff, PanelLeftClose, PanelLeftOpen,
   Sparkles, MessageSquare, AlertCircle, FileText, Trash, CheckSquare, Square,
   Shield, UserPlus, Info, BookOpen, FileCode, Package, Edit2, Clock, Key, Calendar,
-  Anchor, CloudUpload, DownloadCloud, CheckCircle2
+  Anchor, CloudUpload, DownloadCloud, CheckCircle2, GitBranch
 } from 'lucide-react';
-import { Table, Column, Relationship, DataType, GenerationStrategyType, GenerationRule, Project, Cardinality, TableGenerationSettings, ReferenceFile, Actor, TablePermission, TableType, DateLogicConfig } from './types';
-import { generateAndDownload } from '../services/generatorService';
+import { Table, Column, Relationship, DataType, GenerationStrategyType, GenerationRule, Project, Cardinality, TableGenerationSettings, ReferenceFile, Actor, TablePermission, TableType, DateLogicConfig, RelativeDateConfig, ConditionalBranch, PredicateOperator, JunctionSettings, HierarchyConfig, NumericConfig, NumericDistribution, GlobalSettings, LifecyclePolicy, CopyMode, ItemOrder, RevisionMode } from './types';
+import { generateAndDownload, resolvePresetRange, resolveReferenceDate, orderColumnsForRow, getUniqueConstraints, getValueSpaceSize, getLinkCandidates, getJunctionFileName, analyzeTableDependencies, getGenerationPlan, getFormulaError, getTemplateError, getQuotaRowRange, getQuotaAnchorError, getJunctionError } from '../services/generatorService';
+import { FORMULA_FUNCTION_NAMES } from '../services/formulaService';
+import { TEMPLATE_TRANSFORM_NAMES } from '../services/templateService';
 import { getGlobalDateFormat, saveGlobalDateFormat } from '../services/storageService';
 
 // --- Sub-components ---
@@ -320,29 +322,62 @@ const FileUploadStep = ({
     }
 
     if (isMultiValue) {
+      const splitSamples = cleanSamples.map(s => s.split(delimiter).map(i => i.trim()).filter(Boolean));
+      const uniqueItems = Array.from(new Set(splitSamples.flat())).slice(0, 50);
       return {
         type: DataType.MULTI_SELECT,
-        rule: { type: GenerationStrategyType.RANDOM, config: { options: [], delimiter } }
+        rule: { 
+          type: GenerationStrategyType.RANDOM, 
+          config: { 
+            options: uniqueItems, 
+            delimiter,
+            minItems: Math.max(1, Math.min(...splitSamples.map(i => i.length))),
+            maxItems: Math.max(...splitSamples.map(i => i.length))
+          } 
+        }
       };
     }
 
     const categoricalNames = ['type', 'project', 'organization', 'department', 'status', 'category', 'priority'];
     if (categoricalNames.some(n => lowerName.includes(n))) {
       const uniqueOptions = Array.from(new Set(cleanSamples.map(s => s.trim()))).slice(0, 50); 
+      // Observed frequencies become the default weights
+      const optionWeights: Record<string, number> = {};
+      cleanSamples.forEach(s => {
+        const key = s.trim();
+        if (uniqueOptions.includes(key)) optionWeights[key] = (optionWeights[key] || 0) + 1;
+      });
       return {
         type: DataType.DROPDOWN,
         rule: { 
           type: GenerationStrategyType.RANDOM, 
-          config: { options: uniqueOptions } 
+          config: { options: uniqueOptions, optionWeights } 
         }
       };
     }
 
     if (cleanSamples.every(s => !isNaN(Number(s)))) {
       const isInteger = cleanSamples.every(s => Number.isInteger(Number(s)));
+      const nums = cleanSamples.map(Number);
+      const mean = nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : 0;
+      const stdDev = nums.length ? Math.sqrt(nums.reduce((a, b) => a + (b - mean) ** 2, 0) / nums.length) : 0;
+      const precision = isInteger ? 0 : Math.max(...cleanSamples.map(s => s.split('.')[1]?.length || 0));
       return {
         type: isInteger ? DataType.INTEGER : DataType.REAL,
-        rule: { type: GenerationStrategyType.RANDOM, config: { options: cleanSamples.slice(0, 10) } } 
+        rule: { 
+          type: GenerationStrategyType.NUMERIC, 
+          config: { 
+            options: cleanSamples.slice(0, 10),
+            numeric: {
+              min: nums.length ? Math.min(...nums) : 0,
+              max: nums.length ? Math.max(...nums) : 100,
+              distribution: 'uniform',
+              precision,
+              mean: Number(mean.toFixed(precision)),
+              stdDev: Number(stdDev.toFixed(Math.max(precision, 2)))
+            }
+          } 
+        } 
       };
     }
 
@@ -1038,6 +1073,7 @@ const SchemaStep = ({ tables, onUpdateTables, onConfigureTable, actors, onOpenAc
                 <thead className="bg-slate-50 text-slate-500 font-medium border-b border-slate-100">
                   <tr>
                     <th className="px-4 py-3 w-12 text-center">PK</th>
+                    <th className="px-2 py-3 w-12 text-center" title="Values must not repeat">Unique</th>
                     <th className="px-6 py-3 min-w-[160px]">Column Name</th>
                     <th className="px-6 py-3 min-w-[180px]">Display Name</th>
                     <th className="px-6 py-3 min-w-[180px]">System Name</th>
@@ -1062,6 +1098,19 @@ const SchemaStep = ({ tables, onUpdateTables, onConfigureTable, actors, onOpenAc
                           <Key size={18} fill={col.isPrimaryKey ? "currentColor" : "none"} />
                         </button>
                       </td>
+                      <td className="px-2 py-3 text-center align-top pt-4">
+                        <button 
+                          onClick={() => {
+                            const newCols = [...activeTable.columns];
+                            newCols[idx] = { ...col, isUnique: !col.isUnique };
+                            onUpdateTables({ ...activeTable, columns: newCols });
+                          }}
+                          className={`transition-all hover:scale-110 ${col.isUnique || col.isPrimaryKey ? 'text-primary' : 'text-slate-300 hover:text-slate-400'}`}
+                          title={col.isPrimaryKey ? "Primary keys are always unique" : col.isUnique ? "Unique" : "Set as Unique"}
+                        >
+                          {col.isUnique || col.isPrimaryKey ? <CheckSquare size={18} /> : <Square size={18} />}
+                        </button>
+                      </td>
                       <td className="px-6 py-3 font-medium text-slate-700 align-top pt-4 min-w-[160px]">{col.name}</td>
                       <td className="px-6 py-3 align-top pt-4 min-w-[180px]">
                         <input 
@@ -1429,6 +1478,7 @@ const RelationshipMapper = ({
     else if (action === '1:1' || action === '1:N' || action === 'N:M') onUpdateRelationship({ ...rel, cardinality: action as Cardinality });
   };
 
+  const contextRel = contextMenu ? relationships.find(r => r.id === contextMenu.relId) : undefined;
   const visibleTables = tables.filter(t => t.ui?.isVisible !== false);
   const hiddenTables = tables.filter(t => t.ui?.isVisible === false);
 
@@ -1552,11 +1602,57 @@ const RelationshipMapper = ({
           })}
         </div>
         {contextMenu && (
-          <div className="fixed bg-white rounded-lg shadow-xl border border-slate-200 py-1 z-50 w-48 animate-in fade-in zoom-in-95 duration-100" style={{ left: contextMenu.x, top: contextMenu.y }} onClick={(e) => e.stopPropagation()}>
+          <div className={`fixed bg-white rounded-lg shadow-xl border border-slate-200 py-1 z-50 ${contextRel && contextRel.cardinality !== '1:N' ? 'w-64' : 'w-48'} animate-in fade-in zoom-in-95 duration-100`} style={{ left: contextMenu.x, top: contextMenu.y }} onClick={(e) => e.stopPropagation()}>
              <div className="px-3 py-2 text-xs font-semibold text-slate-400 uppercase tracking-wider border-b border-slate-100 mb-1">Relationship</div>
              <button onClick={() => handleContextAction('1:1')} className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 hover:text-primary flex justify-between">One-to-One <span>1:1</span></button>
              <button onClick={() => handleContextAction('1:N')} className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 hover:text-primary flex justify-between">One-to-Many <span>1:∞</span></button>
              <button onClick={() => handleContextAction('N:M')} className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 hover:text-primary flex justify-between">Many-to-Many <span>∞:∞</span></button>
+             {(() => {
+               const rel = contextRel;
+               if (rel?.cardinality !== '1:1') return null;
+               return (
+                 <div className="px-3 py-2 border-t border-slate-100 mt-1">
+                   <label className="block text-[10px] font-bold text-slate-500 uppercase mb-0.5">Unmatched Parents %</label>
+                   <input 
+                     type="number" min={0} max={100} 
+                     value={Math.round((rel.unmatchedParentRate ?? 0) * 100)} 
+                     onChange={(e) => onUpdateRelationship({ ...rel, unmatchedParentRate: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100 })} 
+                     className="w-full border border-slate-200 rounded px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-primary" 
+                   />
+                   <p className="text-[10px] text-slate-400 mt-1">Each parent row is linked at most once. Applies to child tables generated per parent.</p>
+                 </div>
+               );
+             })()}
+             {(() => {
+               const rel = contextRel;
+               if (rel?.cardinality !== 'N:M') return null;
+               const junction = rel.junction || {};
+               const updateJunction = (updates: Partial<JunctionSettings>) => onUpdateRelationship({ ...rel, junction: { ...junction, ...updates } });
+               const parseOptional = (v: string) => v === '' ? undefined : Math.max(0, parseInt(v) || 0);
+               const bound = (label: string, key: keyof Omit<JunctionSettings, 'junctionTableId'>, placeholder: string) => (
+                 <div>
+                   <label className="block text-[10px] font-bold text-slate-500 uppercase mb-0.5">{label}</label>
+                   <input type="number" min={0} value={junction[key] ?? ''} placeholder={placeholder} onChange={(e) => updateJunction({ [key]: parseOptional(e.target.value) })} className="w-full border border-slate-200 rounded px-2 py-1 text-xs outline-none focus:ring-1 focus:ring-primary" />
+                 </div>
+               );
+               return (
+                 <div className="px-3 py-2 border-t border-slate-100 mt-1 space-y-2">
+                   <div>
+                     <label className="block text-[10px] font-bold text-slate-500 uppercase mb-0.5">Junction Table</label>
+                     <select value={junction.junctionTableId || ''} onChange={(e) => updateJunction({ junctionTableId: e.target.value || undefined })} className="w-full border border-slate-200 rounded px-2 py-1 text-xs bg-white outline-none focus:ring-1 focus:ring-primary">
+                       <option value="">Auto-create in export</option>
+                       {tables.filter(t => t.tableType === 'Relationship').map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                     </select>
+                   </div>
+                   <div className="grid grid-cols-2 gap-2">
+                     {bound('Min / Source', 'minPerSource', '1')}
+                     {bound('Max / Source', 'maxPerSource', '3')}
+                     {bound('Min / Target', 'minPerTarget', '0')}
+                     {bound('Max / Target', 'maxPerTarget', '∞')}
+                   </div>
+                 </div>
+               );
+             })()}
              <div className="h-px bg-slate-100 my-1" /><button onClick={() => handleContextAction('delete')} className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"><Trash2 size={14} /> Delete</button>
           </div>
         )}
@@ -1592,6 +1688,47 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
   
   const connectedTables = activeTable ? getConnectedTables(activeTable.id) : [];
 
+  // Strategies a CONDITIONAL branch can use, each with a compact editor
+  const BRANCH_STRATEGIES = [GenerationStrategyType.RANDOM, GenerationStrategyType.NUMERIC, GenerationStrategyType.FORMULA, GenerationStrategyType.TEMPLATE, GenerationStrategyType.PATTERN, GenerationStrategyType.REFERENCE, GenerationStrategyType.COPY];
+  const renderBranchRule = (rule: GenerationRule, onChange: (rule: GenerationRule) => void) => (
+    <div className="flex gap-2">
+      <select 
+        value={rule.type} 
+        onChange={(e) => onChange({ type: e.target.value as GenerationStrategyType, config: rule.config })} 
+        className="w-40 shrink-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white outline-none focus:ring-2 focus:ring-primary"
+      >
+        {BRANCH_STRATEGIES.map(t => <option key={t} value={t}>{t}</option>)}
+      </select>
+      {rule.type === GenerationStrategyType.RANDOM && (
+        <input type="text" value={rule.config?.options?.join(', ') || ''} placeholder="Options (comma separated, blank = empty)" onChange={(e) => onChange({ ...rule, config: { ...rule.config, options: e.target.value.split(',').map(v => v.trim()) } })} className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-primary" />
+      )}
+      {rule.type === GenerationStrategyType.NUMERIC && (
+        <>
+          <input type="number" value={rule.config?.numeric?.min ?? 0} title="Min" onChange={(e) => onChange({ ...rule, config: { ...rule.config, numeric: { distribution: 'uniform', max: 100, ...rule.config?.numeric, min: parseFloat(e.target.value) || 0 } } })} className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-primary" />
+          <input type="number" value={rule.config?.numeric?.max ?? 100} title="Max" onChange={(e) => onChange({ ...rule, config: { ...rule.config, numeric: { distribution: 'uniform', min: 0, ...rule.config?.numeric, max: parseFloat(e.target.value) || 0 } } })} className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-primary" />
+        </>
+      )}
+      {rule.type === GenerationStrategyType.FORMULA && (
+        <input type="text" value={rule.config?.formula || ''} placeholder="e.g. quantity * unitPrice" onChange={(e) => onChange({ ...rule, config: { ...rule.config, formula: e.target.value } })} className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-mono outline-none focus:ring-2 focus:ring-primary" />
+      )}
+      {rule.type === GenerationStrategyType.TEMPLATE && (
+        <input type="text" value={rule.config?.template || ''} placeholder="e.g. {first|lower}.{last|lower}@acme.com" onChange={(e) => onChange({ ...rule, config: { ...rule.config, template: e.target.value } })} className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-mono outline-none focus:ring-2 focus:ring-primary" />
+      )}
+      {rule.type === GenerationStrategyType.PATTERN && (
+        <input type="text" value={rule.config?.pattern || ''} placeholder="e.g. DOC-####" onChange={(e) => onChange({ ...rule, config: { ...rule.config, pattern: e.target.value } })} className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-mono outline-none focus:ring-2 focus:ring-primary" />
+      )}
+      {rule.type === GenerationStrategyType.REFERENCE && (
+        <select value={rule.config?.referenceFileId || ''} onChange={(e) => onChange({ ...rule, config: { ...rule.config, referenceFileId: e.target.value } })} className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white outline-none focus:ring-2 focus:ring-primary">
+          <option value="">Select File...</option>
+          {referenceFiles.map(rf => <option key={rf.id} value={rf.id}>{rf.name}</option>)}
+        </select>
+      )}
+      {rule.type === GenerationStrategyType.COPY && (
+        <span className="flex-1 self-center text-[10px] text-slate-400 italic">Resamples this column's uploaded samples.</span>
+      )}
+    </div>
+  );
+
   // Restore Auto-Mapping for Duration
   useEffect(() => {
     if (activeTable) {
@@ -1648,6 +1785,16 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
     });
   };
 
+  const updateRelativeDate = (colId: string, updates: Partial<RelativeDateConfig> | null) => {
+    const col = activeTable?.columns.find(c => c.id === colId);
+    if (!col) return;
+    const current = col.rule.config?.relativeDateConfig || { sourceColumnId: '', minDays: 0, maxDays: 30, direction: 'after' };
+    handleRuleChange(colId, {
+      ...col.rule,
+      config: { ...col.rule.config, relativeDateConfig: updates ? { ...current, ...updates } : undefined }
+    });
+  };
+
   const addLinkedSource = (colId: string) => {
     if (!activeTable) return;
     const col = activeTable.columns.find(c => c.id === colId);
@@ -1756,6 +1903,74 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                        </div>
                     </>
                  )}
+                 <div>
+                   <label className="block text-sm font-medium text-slate-700 mb-2">Generation Priority</label>
+                   <input type="number" value={activeTable.generationPriority ?? 0} onChange={(e) => onUpdateTables({ ...activeTable, generationPriority: parseInt(e.target.value) || 0 })} className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" />
+                   <p className="text-[10px] text-slate-400 mt-1">Higher-priority tables are generated first wherever dependencies leave a choice.</p>
+                 </div>
+               </div>
+               {activeTable.tableType === 'Relationship' && (() => {
+                 const linkedTableIds = Array.from(new Set(activeTable.columns
+                   .filter(c => c.rule.type === GenerationStrategyType.LINKED)
+                   .flatMap(c => getLinkCandidates(c).map(cand => cand.tableId))));
+                 const covered = activeTable.genSettings?.coverLinkedTableIds || [];
+                 return (
+                   <div className="mt-6 pt-4 border-t border-slate-100">
+                     <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center gap-2"><Link size={14} className="text-blue-500"/> Link Coverage</label>
+                     <p className="text-xs text-slate-400 mb-2">Link combinations in this relationship table never repeat. Tick a table to link each of its rows at least once.</p>
+                     {linkedTableIds.length === 0 && <p className="text-xs text-slate-400 italic">No linked columns yet.</p>}
+                     <div className="grid grid-cols-2 gap-1">
+                       {linkedTableIds.map(tId => {
+                         const isCovered = covered.includes(tId);
+                         return (
+                           <button 
+                             key={tId}
+                             onClick={() => handleSettingsChange({ ...activeTable.genSettings!, coverLinkedTableIds: isCovered ? covered.filter(id => id !== tId) : [...covered, tId] })}
+                             className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors ${isCovered ? 'bg-primary/10 text-primary' : 'hover:bg-slate-50 text-slate-600'}`}
+                           >
+                             {isCovered ? <CheckSquare size={14} /> : <Square size={14} />}
+                             <span className="truncate">Every {tables.find(t => t.id === tId)?.name || 'Unknown'} row links at least once</span>
+                           </button>
+                         );
+                       })}
+                     </div>
+                   </div>
+                 );
+               })()}
+               <div className="mt-6 pt-4 border-t border-slate-100">
+                 <div className="flex items-center justify-between mb-2">
+                   <label className="block text-sm font-medium text-slate-700 flex items-center gap-2"><Key size={14} className="text-yellow-500"/> Composite Unique Keys</label>
+                   <button onClick={() => onUpdateTables({ ...activeTable, uniqueKeys: [...(activeTable.uniqueKeys || []), []] })} className="text-xs text-primary hover:underline flex items-center gap-1"><Plus size={12}/> Add Key</button>
+                 </div>
+                 {(activeTable.uniqueKeys || []).length === 0 && (
+                   <p className="text-xs text-slate-400 italic">No composite keys. Primary key and unique columns are set on the Schema step.</p>
+                 )}
+                 {(activeTable.uniqueKeys || []).map((key, keyIdx) => {
+                   const updateKey = (next: string[] | null) => {
+                     const keys = [...(activeTable.uniqueKeys || [])];
+                     if (next) keys[keyIdx] = next; else keys.splice(keyIdx, 1);
+                     onUpdateTables({ ...activeTable, uniqueKeys: keys });
+                   };
+                   return (
+                     <div key={keyIdx} className="flex items-start gap-2 mb-2">
+                       <div className="flex-1 flex flex-wrap gap-1">
+                         {activeTable.columns.map(c => {
+                           const isSelected = key.includes(c.id);
+                           return (
+                             <button 
+                               key={c.id}
+                               onClick={() => updateKey(isSelected ? key.filter(id => id !== c.id) : [...key, c.id])}
+                               className={`px-2 py-1 rounded text-xs border transition-colors ${isSelected ? 'bg-primary/10 text-primary border-primary/30' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                             >
+                               {c.name}
+                             </button>
+                           );
+                         })}
+                       </div>
+                       <button onClick={() => updateKey(null)} className="p-1 text-slate-400 hover:text-red-500" title="Remove key"><X size={14}/></button>
+                     </div>
+                   );
+                 })}
                </div>
             </div>
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -1765,6 +1980,7 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                    const isDuration = col.type === DataType.DURATION;
                    const isDate = col.type === DataType.DATE;
                    const dateLogic = col.rule.config?.dateLogic || { mode: 'Now' };
+                   const relativeDate = col.rule.config?.relativeDateConfig;
 
                    // Find ALL relationships for this column to display linked parents
                    const activeRels = relationships.filter(r => 
@@ -1832,6 +2048,53 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                                   </div>
                                 )}
 
+                                <div className="pt-3 border-t border-purple-100">
+                                  <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Relative to Column</label>
+                                  <select 
+                                      value={relativeDate ? `${relativeDate.isLinkedSource ? tables.find(t => t.columns.some(c => c.id === relativeDate.sourceColumnId))?.id : activeTable.id}::${relativeDate.sourceColumnId}` : ''}
+                                      onChange={(e) => {
+                                        if (!e.target.value) return updateRelativeDate(col.id, null);
+                                        const [tId, cId] = e.target.value.split('::');
+                                        updateRelativeDate(col.id, { sourceColumnId: cId, isLinkedSource: tId !== activeTable.id });
+                                      }}
+                                      className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white outline-none focus:ring-2 focus:ring-primary"
+                                  >
+                                      <option value="">None (use Date Logic)</option>
+                                      {[activeTable, ...connectedTables].map(t => (
+                                        <optgroup key={t.id} label={t.id === activeTable.id ? `${t.name} (this row)` : `${t.name} (linked parent)`}>
+                                          {t.columns.filter(c => c.id !== col.id && c.type === DataType.DATE).map(c => (
+                                            <option key={c.id} value={`${t.id}::${c.id}`}>{c.name}</option>
+                                          ))}
+                                        </optgroup>
+                                      ))}
+                                  </select>
+                                  {relativeDate && (
+                                    <div className="grid grid-cols-3 gap-2 mt-2">
+                                      <select 
+                                        value={relativeDate.direction}
+                                        onChange={(e) => updateRelativeDate(col.id, { direction: e.target.value as 'before' | 'after' })}
+                                        className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white"
+                                      >
+                                        <option value="after">After</option>
+                                        <option value="before">Before</option>
+                                      </select>
+                                      <input 
+                                        type="number" min={0} title="Min days"
+                                        value={relativeDate.minDays}
+                                        onChange={(e) => updateRelativeDate(col.id, { minDays: parseInt(e.target.value) || 0 })}
+                                        className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white"
+                                      />
+                                      <input 
+                                        type="number" min={0} title="Max days"
+                                        value={relativeDate.maxDays}
+                                        onChange={(e) => updateRelativeDate(col.id, { maxDays: parseInt(e.target.value) || 0 })}
+                                        className="w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white"
+                                      />
+                                    </div>
+                                  )}
+                                  {relativeDate && <p className="text-[9px] text-slate-400 mt-1">Overrides the Date Logic above: {relativeDate.minDays}–{relativeDate.maxDays} days {relativeDate.direction} the source.</p>}
+                                </div>
+
                                 <div className="grid grid-cols-2 gap-4">
                                   <div>
                                       <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Min Offset (Days)</label>
@@ -1886,9 +2149,91 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                                   }}
                                   className="w-full bg-white border border-blue-200 text-slate-700 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none"
                                 />
-                                <p className="text-[9px] text-blue-400 mt-1">Defines the sequence for generated revisions.</p>
+                                <p className="text-[9px] text-blue-400 mt-1">Defines the sequence for generated revisions; longer histories continue from the last value.</p>
+                                <div className="grid grid-cols-2 gap-2 mt-3">
+                                  <div>
+                                    <label className="block text-[10px] font-bold text-blue-600 uppercase mb-1">Mode</label>
+                                    <select 
+                                      value={col.rule.config?.revisionMode || 'history'}
+                                      onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, revisionMode: e.target.value as RevisionMode } })}
+                                      className="w-full bg-white border border-blue-200 text-slate-700 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none"
+                                    >
+                                      <option value="history">Full History</option>
+                                      <option value="latest">Latest Only</option>
+                                    </select>
+                                  </div>
+                                  <div>
+                                    <label className="block text-[10px] font-bold text-blue-600 uppercase mb-1">Identity Column</label>
+                                    <select 
+                                      value={col.rule.config?.revisionIdentityColumnId || ''}
+                                      onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, revisionIdentityColumnId: e.target.value || undefined } })}
+                                      className="w-full bg-white border border-blue-200 text-slate-700 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none"
+                                    >
+                                      <option value="">Group by parent row</option>
+                                      {activeTable.columns.filter(c => c.id !== col.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                    </select>
+                                  </div>
+                                </div>
+                                <p className="text-[9px] text-blue-400 mt-1">Rows in the same group get increasing revisions (history) or share one (latest).</p>
                               </div>
                             )}
+
+                            {!col.rule.config?.label?.includes("Lifecycle") && (() => {
+                              const condition = col.rule.config?.emptyUnless;
+                              const setEmptiness = (updates: Partial<NonNullable<GenerationRule['config']>>) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, ...updates } });
+                              return (
+                                <div className="mt-4 p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+                                  <div className="grid grid-cols-2 gap-2">
+                                    <div>
+                                      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Empty %</label>
+                                      <input 
+                                        type="number" min={0} max={100}
+                                        value={Math.round((col.rule.config?.nullRate ?? 0) * 100)}
+                                        onChange={(e) => setEmptiness({ nullRate: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100 || undefined })}
+                                        className="w-full bg-white border border-slate-200 text-slate-700 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none"
+                                      />
+                                    </div>
+                                    <div>
+                                      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Written As</label>
+                                      <select 
+                                        value={col.rule.config?.emptyAs || 'empty'}
+                                        onChange={(e) => setEmptiness({ emptyAs: e.target.value as 'empty' | 'null' })}
+                                        className="w-full bg-white border border-slate-200 text-slate-700 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none"
+                                      >
+                                        <option value="empty">Empty string</option>
+                                        <option value="null">NULL</option>
+                                      </select>
+                                    </div>
+                                  </div>
+                                  <div>
+                                    <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Empty Unless</label>
+                                    <div className="grid grid-cols-2 gap-2">
+                                      <select 
+                                        value={condition?.columnId || ''}
+                                        onChange={(e) => setEmptiness({ emptyUnless: e.target.value ? { columnId: e.target.value, values: condition?.values || [] } : undefined })}
+                                        className="w-full bg-white border border-slate-200 text-slate-700 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none"
+                                      >
+                                        <option value="">No condition</option>
+                                        {activeTable.columns.filter(c => c.id !== col.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                      </select>
+                                      <input 
+                                        type="text"
+                                        disabled={!condition}
+                                        value={condition?.values.join(', ') || ''}
+                                        placeholder="is one of (comma separated)"
+                                        onChange={(e) => condition && setEmptiness({ emptyUnless: { ...condition, values: e.target.value.split(',').map(v => v.trim()) } })}
+                                        className="w-full bg-white border border-slate-200 text-slate-700 text-xs rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none disabled:bg-slate-100"
+                                      />
+                                    </div>
+                                    <p className="text-[9px] text-slate-400 mt-1">
+                                      {condition && !condition.values.some(Boolean) 
+                                        ? 'Enter at least one value; the condition is ignored until then.' 
+                                        : 'e.g. closedDate is empty unless status is Closed. The empty % applies to the remaining rows.'}
+                                    </p>
+                                  </div>
+                                </div>
+                              );
+                            })()}
                          </div>
                          <div className="flex-1">
                             {col.rule.type === GenerationStrategyType.PATTERN && (
@@ -1897,12 +2242,299 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                                   <input type="text" value={col.rule.config?.pattern || ''} placeholder="e.g. ORD-####" onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, pattern: e.target.value } })} className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" />
                                 </div>
                             )}
+                            {col.rule.type === GenerationStrategyType.COPY && (
+                               <div className="space-y-2">
+                                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Sampling</label>
+                                  <select value={col.rule.config?.copyMode || 'random'} onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, copyMode: e.target.value as CopyMode } })} className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none">
+                                    <option value="random">Random (keep observed frequencies)</option>
+                                    <option value="sequential">Sequential (cycle through samples)</option>
+                                  </select>
+                                  <button 
+                                    onClick={() => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, dedupe: !col.rule.config?.dedupe } })}
+                                    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors ${col.rule.config?.dedupe ? 'bg-primary/10 text-primary' : 'hover:bg-slate-50 text-slate-600'}`}
+                                  >
+                                    {col.rule.config?.dedupe ? <CheckSquare size={14} /> : <Square size={14} />}
+                                    <span>Deduplicate samples (ignore frequencies)</span>
+                                  </button>
+                                  <p className="text-[10px] text-slate-400 italic">{new Set(col.sampleValues).size} distinct of {col.sampleValues.length} samples{col.rule.config?.delimiter ? ` · split on "${col.rule.config.delimiter}"` : ''}</p>
+                               </div>
+                            )}
                             {col.rule.type === GenerationStrategyType.RANDOM && (
                                <div>
                                   <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Options (comma separated)</label>
                                   <input type="text" value={col.rule.config?.options?.join(', ') || ''} onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, options: e.target.value.split(',').map(s => s.trim()) } })} className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" />
                                 </div>
                             )}
+                            {((col.rule.type === GenerationStrategyType.RANDOM && ![DataType.DATE, DataType.MULTI_SELECT, DataType.REVISION].includes(col.type)) || col.rule.config?.label === 'Lifecycle Status') && (col.rule.config?.options || []).filter(Boolean).length > 0 && (() => {
+                               const options = (col.rule.config?.options || []).filter(Boolean);
+                               const weights = col.rule.config?.optionWeights;
+                               const total = options.reduce((sum, o) => sum + Math.max(0, weights?.[o] ?? 1), 0);
+                               const setWeight = (option: string, value: number) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, optionWeights: { ...weights, [option]: Math.max(0, value) } } });
+                               const resetToSamples = () => {
+                                 const counts: Record<string, number> = {};
+                                 col.sampleValues.forEach(v => { if (options.includes(v.trim())) counts[v.trim()] = (counts[v.trim()] || 0) + 1; });
+                                 handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, optionWeights: Object.keys(counts).length > 0 ? counts : undefined } });
+                               };
+                               return (
+                                 <div className="mt-3 space-y-1">
+                                    <div className="flex items-center justify-between">
+                                      <label className="block text-xs font-semibold text-slate-500 uppercase">Weights</label>
+                                      <div className="flex gap-2 text-[10px]">
+                                        {col.sampleValues.length > 0 && <button onClick={resetToSamples} className="text-primary hover:underline">From samples</button>}
+                                        {weights && <button onClick={() => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, optionWeights: undefined } })} className="text-slate-400 hover:underline">Uniform</button>}
+                                      </div>
+                                    </div>
+                                    <div className="max-h-40 overflow-y-auto space-y-1">
+                                      {options.map(o => (
+                                        <div key={o} className="flex items-center gap-2 text-xs">
+                                          <span className="flex-1 truncate text-slate-600">{o}</span>
+                                          <input type="number" min={0} value={weights?.[o] ?? 1} onChange={(e) => setWeight(o, Number(e.target.value) || 0)} className="w-16 border border-slate-300 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                          <span className="w-10 text-right text-slate-400">{total > 0 ? Math.round((Math.max(0, weights?.[o] ?? 1) / total) * 100) : 0}%</span>
+                                        </div>
+                                      ))}
+                                    </div>
+                                 </div>
+                               );
+                            })()}
+                            {col.rule.type === GenerationStrategyType.NUMERIC && (() => {
+                               const numeric: NumericConfig = col.rule.config?.numeric || { min: 0, max: 100, distribution: 'uniform' };
+                               const updateNumeric = (updates: Partial<NumericConfig>) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, numeric: { ...numeric, ...updates } } });
+                               const parseOptional = (v: string) => v === '' ? undefined : Number(v);
+                               const usesMean = numeric.distribution !== 'uniform';
+                               const usesStdDev = numeric.distribution === 'normal' || numeric.distribution === 'lognormal';
+                               return (
+                                 <div className="space-y-2">
+                                    <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Distribution</label>
+                                    <select value={numeric.distribution} onChange={(e) => updateNumeric({ distribution: e.target.value as NumericDistribution })} className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none">
+                                      <option value="uniform">Uniform</option>
+                                      <option value="normal">Normal</option>
+                                      <option value="lognormal">Lognormal</option>
+                                      <option value="exponential">Exponential</option>
+                                      <option value="poisson">Poisson</option>
+                                    </select>
+                                    <div className="grid grid-cols-2 gap-2">
+                                      <div>
+                                        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Min</label>
+                                        <input type="number" value={numeric.min} onChange={(e) => updateNumeric({ min: Number(e.target.value) || 0 })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                      </div>
+                                      <div>
+                                        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Max</label>
+                                        <input type="number" value={numeric.max} onChange={(e) => updateNumeric({ max: Number(e.target.value) || 0 })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                      </div>
+                                      {usesMean && (
+                                        <div>
+                                          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Mean</label>
+                                          <input type="number" value={numeric.mean ?? ''} placeholder="auto" onChange={(e) => updateNumeric({ mean: parseOptional(e.target.value) })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                        </div>
+                                      )}
+                                      {usesStdDev && (
+                                        <div>
+                                          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Std Dev</label>
+                                          <input type="number" min={0} value={numeric.stdDev ?? ''} placeholder="auto" onChange={(e) => updateNumeric({ stdDev: parseOptional(e.target.value) })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                        </div>
+                                      )}
+                                      <div>
+                                        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Step</label>
+                                        <input type="number" min={0} value={numeric.step ?? ''} placeholder="none" onChange={(e) => updateNumeric({ step: parseOptional(e.target.value) })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                      </div>
+                                      <div>
+                                        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Decimals</label>
+                                        <input type="number" min={0} max={10} disabled={col.type === DataType.INTEGER} value={col.type === DataType.INTEGER ? 0 : (numeric.precision ?? 2)} onChange={(e) => updateNumeric({ precision: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none disabled:bg-slate-50" />
+                                      </div>
+                                    </div>
+                                    <p className="text-[10px] text-slate-400 italic">Values outside [min, max] are redrawn, then clamped.</p>
+                                 </div>
+                               );
+                            })()}
+                            {((col.rule.type === GenerationStrategyType.RANDOM && ![DataType.DATE, DataType.MULTI_SELECT, DataType.REVISION].includes(col.type)) || col.rule.type === GenerationStrategyType.REFERENCE) && (() => {
+                               const quotas = col.rule.config?.quotas;
+                               const values = col.rule.type === GenerationStrategyType.REFERENCE
+                                 ? (referenceFiles.find(rf => rf.id === col.rule.config?.referenceFileId)?.values || []).slice(0, 100)
+                                 : (col.rule.config?.options || []).filter(Boolean);
+                               const perParent = activeTable.genSettings?.mode === 'per_parent';
+                               const plannedRows = perParent ? (activeTable.genSettings?.maxPerParent || 3) : (activeTable.genSettings?.fixedCount ?? 10);
+                               const allocated = Object.values(quotas || {}).reduce((a, b) => a + b, 0);
+                               const setQuota = (value: string, n: number | undefined) => {
+                                 const next = { ...quotas };
+                                 if (n === undefined) delete next[value]; else next[value] = Math.max(0, n);
+                                 handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, quotas: next } });
+                               };
+                               if (values.length === 0) return null;
+                               return (
+                                 <div className="mt-3 space-y-1">
+                                    <button 
+                                      onClick={() => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, quotas: quotas ? undefined : {} } })}
+                                      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors ${quotas ? 'bg-primary/10 text-primary' : 'hover:bg-slate-50 text-slate-600'}`}
+                                    >
+                                      {quotas ? <CheckSquare size={14} /> : <Square size={14} />}
+                                      <span>Exact quotas {perParent ? '(per parent)' : '(per table)'}</span>
+                                    </button>
+                                    {quotas && (
+                                      <>
+                                        <div className="max-h-40 overflow-y-auto space-y-1">
+                                          {values.map(v => (
+                                            <div key={v} className="flex items-center gap-2 text-xs">
+                                              <span className="flex-1 truncate text-slate-600">{v}</span>
+                                              <input type="number" min={0} value={quotas[v] ?? ''} placeholder="any" onChange={(e) => setQuota(v, e.target.value === '' ? undefined : parseInt(e.target.value) || 0)} className="w-16 border border-slate-300 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                            </div>
+                                          ))}
+                                        </div>
+                                        <p className={`text-[10px] italic ${allocated > plannedRows ? 'text-red-500' : 'text-slate-400'}`}>
+                                          {allocated} of {plannedRows} {perParent ? 'rows per parent (maximum)' : 'rows'} allocated. Values left blank fill the rest.
+                                        </p>
+                                      </>
+                                    )}
+                                 </div>
+                               );
+                            })()}
+                            {col.rule.type === GenerationStrategyType.FORMULA && (() => {
+                              const formula = col.rule.config?.formula || '';
+                              const error = formula.trim() ? getFormulaError(formula, col, activeTable, tables) : undefined;
+                              const setFormula = (next: string) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, formula: next } });
+                              // Names that are not plain identifiers are back-quoted
+                              const insertRef = (name: string) => setFormula(`${formula}${formula && !formula.endsWith(' ') ? ' ' : ''}${/^[A-Za-z_][\w.]*$/.test(name) ? name : `\`${name}\``}`);
+                              const refs = [
+                                ...activeTable.columns.filter(c => c.id !== col.id).map(c => c.name),
+                                ...connectedTables.flatMap(t => t.columns.map(c => `${t.name}.${c.name}`))
+                              ];
+                              return (
+                                <div className="space-y-2">
+                                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Formula</label>
+                                  <textarea 
+                                    value={formula}
+                                    placeholder="e.g. quantity * unitPrice, first + ' ' + last, created + 30d"
+                                    onChange={(e) => setFormula(e.target.value)}
+                                    className={`w-full border rounded-lg px-3 py-2 text-sm font-mono h-16 resize-y focus:ring-2 focus:ring-primary outline-none ${error ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                                  />
+                                  {error 
+                                    ? <p className="text-[10px] text-red-500 flex items-center gap-1 font-bold"><AlertCircle size={10} /> {error}</p>
+                                    : !formula.trim() && <p className="text-[10px] text-slate-400 italic">Enter a formula; an empty one fails the export.</p>}
+                                  <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+                                    {refs.map(name => (
+                                      <button key={name} onClick={() => insertRef(name)} className="px-1.5 py-0.5 bg-slate-100 hover:bg-primary/10 hover:text-primary text-slate-600 rounded text-[10px] font-mono">{name}</button>
+                                    ))}
+                                  </div>
+                                  <p className="text-[10px] text-slate-400">
+                                    Operators: + - * / % = != &lt; &gt; and or not. Dates: date + 30d, date - date (days). Functions: {FORMULA_FUNCTION_NAMES.join(', ')}.
+                                  </p>
+                                </div>
+                              );
+                            })()}
+                            {col.rule.type === GenerationStrategyType.TEMPLATE && (() => {
+                              const template = col.rule.config?.template || '';
+                              const error = getTemplateError(template, col, activeTable, tables);
+                              const refs = [
+                                ...activeTable.columns.filter(c => c.id !== col.id).map(c => c.name),
+                                ...connectedTables.flatMap(t => t.columns.map(c => `${t.name}.${c.name}`)),
+                                ...(activeTable.columns.some(c => c.name === 'seq') ? [] : ['seq'])
+                              ];
+                              return (
+                                <div className="space-y-2">
+                                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Template</label>
+                                  <input 
+                                    type="text"
+                                    value={template}
+                                    placeholder="e.g. {first|lower}.{last|lower}@acme.com or {projectCode}-{docType}-{seq|pad:4}"
+                                    onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, template: e.target.value } })}
+                                    className={`w-full border rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-primary outline-none ${error ? 'border-red-400 bg-red-50' : 'border-slate-300'}`}
+                                  />
+                                  {error 
+                                    ? <p className="text-[10px] text-red-500 flex items-center gap-1 font-bold"><AlertCircle size={10} /> {error}</p>
+                                    : !template.trim() && <p className="text-[10px] text-slate-400 italic">No template yet; values are copied from the samples.</p>}
+                                  <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+                                    {refs.map(name => (
+                                      <button key={name} onClick={() => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, template: `${template}{${name}}` } })} className="px-1.5 py-0.5 bg-slate-100 hover:bg-primary/10 hover:text-primary text-slate-600 rounded text-[10px] font-mono">{`{${name}}`}</button>
+                                    ))}
+                                  </div>
+                                  <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                                    <input 
+                                      type="checkbox" 
+                                      checked={!!col.rule.config?.templateFallback}
+                                      onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, templateFallback: e.target.checked } })}
+                                      className="rounded text-primary focus:ring-primary"
+                                    />
+                                    Use a sample value when a placeholder is empty
+                                  </label>
+                                  <p className="text-[10px] text-slate-400">
+                                    Transforms: {'{name|lower}'}, {'{title|slug}'}, {'{name|truncate:10}'}, {'{seq|pad:4}'} (chain with |). Available: {TEMPLATE_TRANSFORM_NAMES.join(', ')}. Write {'{{'} and {'}}'} for literal braces.
+                                  </p>
+                                </div>
+                              );
+                            })()}
+                            {col.rule.type === GenerationStrategyType.CONDITIONAL && (() => {
+                              const branches = col.rule.config?.branches || [];
+                              const setBranches = (next: ConditionalBranch[]) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, branches: next } });
+                              const updateBranch = (idx: number, updates: Partial<ConditionalBranch>) => setBranches(branches.map((b, i) => i === idx ? { ...b, ...updates } : b));
+                              const OPERATORS: { value: PredicateOperator, label: string }[] = [
+                                { value: 'equals', label: '=' }, { value: 'notEquals', label: '≠' }, { value: 'in', label: 'is one of' }, { value: 'notIn', label: 'is not one of' },
+                                { value: 'greaterThan', label: '>' }, { value: 'lessThan', label: '<' }, { value: 'isEmpty', label: 'is empty' }, { value: 'isNotEmpty', label: 'is not empty' }
+                              ];
+                              return (
+                                <div className="p-4 bg-indigo-50/30 rounded-xl border border-indigo-100 space-y-3">
+                                  <h5 className="text-xs font-bold text-indigo-600 uppercase flex items-center gap-2"><GitBranch size={14}/> Branches</h5>
+                                  {branches.length === 0 && <p className="text-xs text-slate-400 italic">No branches yet; every row uses the default rule.</p>}
+                                  {branches.map((branch, idx) => (
+                                    <div key={idx} className="p-2 bg-white border border-indigo-100 rounded-lg space-y-2">
+                                      <div className="flex items-center gap-2">
+                                        <span className="text-[10px] font-bold text-indigo-500 uppercase w-8">{idx === 0 ? 'If' : 'Else if'}</span>
+                                        <select 
+                                          value={`${branch.when.tableId || ''}|${branch.when.columnId}`}
+                                          onChange={(e) => {
+                                            const [tableId, columnId] = e.target.value.split('|');
+                                            updateBranch(idx, { when: { ...branch.when, tableId: tableId || undefined, columnId } });
+                                          }}
+                                          className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white outline-none focus:ring-2 focus:ring-primary"
+                                        >
+                                          <option value="|">Select column...</option>
+                                          <optgroup label="This row">
+                                            {activeTable.columns.filter(c => c.id !== col.id).map(c => <option key={c.id} value={`|${c.id}`}>{c.name}</option>)}
+                                          </optgroup>
+                                          {connectedTables.map(t => (
+                                            <optgroup key={t.id} label={`Linked ${t.name}`}>
+                                              {t.columns.map(c => <option key={c.id} value={`${t.id}|${c.id}`}>{t.name}.{c.name}</option>)}
+                                            </optgroup>
+                                          ))}
+                                        </select>
+                                        <select 
+                                          value={branch.when.operator}
+                                          onChange={(e) => updateBranch(idx, { when: { ...branch.when, operator: e.target.value as PredicateOperator } })}
+                                          className="w-24 border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white outline-none focus:ring-2 focus:ring-primary"
+                                        >
+                                          {OPERATORS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+                                        </select>
+                                        {!['isEmpty', 'isNotEmpty'].includes(branch.when.operator) && (
+                                          <input 
+                                            type="text" 
+                                            value={branch.when.value || ''} 
+                                            placeholder={['in', 'notIn'].includes(branch.when.operator) ? 'a, b, c' : 'value'}
+                                            onChange={(e) => updateBranch(idx, { when: { ...branch.when, value: e.target.value } })}
+                                            className="w-24 border border-slate-200 rounded-lg px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-primary"
+                                          />
+                                        )}
+                                        <button onClick={() => setBranches(branches.filter((_, i) => i !== idx))} className="p-1 text-slate-400 hover:text-red-500"><X size={14} /></button>
+                                      </div>
+                                      <div className="flex items-center gap-2">
+                                        <span className="text-[10px] font-bold text-indigo-500 uppercase w-8">Then</span>
+                                        <div className="flex-1">{renderBranchRule(branch.rule, rule => updateBranch(idx, { rule }))}</div>
+                                      </div>
+                                    </div>
+                                  ))}
+                                  <button 
+                                    onClick={() => setBranches([...branches, { when: { columnId: '', operator: 'equals' }, rule: { type: GenerationStrategyType.RANDOM, config: { options: [] } } }])}
+                                    className="w-full py-1.5 border border-dashed border-indigo-200 rounded-lg text-xs text-indigo-600 hover:bg-indigo-50 flex items-center justify-center gap-1"
+                                  >
+                                    <Plus size={12} /> Add Branch
+                                  </button>
+                                  <div className="flex items-center gap-2 pt-2 border-t border-indigo-100">
+                                    <span className="text-[10px] font-bold text-indigo-500 uppercase w-8">Else</span>
+                                    <div className="flex-1">
+                                      {renderBranchRule(col.rule.config?.defaultRule || { type: GenerationStrategyType.COPY }, rule => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, defaultRule: rule } }))}
+                                    </div>
+                                  </div>
+                                  <p className="text-[10px] text-slate-400">Branches are checked in order once the columns they test are generated.</p>
+                                </div>
+                              );
+                            })()}
                             {col.rule.type === GenerationStrategyType.REFERENCE && (
                                <div className="space-y-4">
                                   <div>
@@ -2031,6 +2663,7 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                                         >
                                           <option value="">Select Table...</option>
                                           {tables.filter(t => t.id !== activeTable.id).map(t => ( <option key={t.id} value={t.id}>{t.name}</option> ))}
+                                          {col.rule.type === GenerationStrategyType.LINKED && <option value={activeTable.id}>{activeTable.name} (self: hierarchy)</option>}
                                         </select>
                                         <select 
                                           value={col.rule.config?.linkedColumnId || ''} 
@@ -2043,6 +2676,51 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                                         </select>
                                       </div>
                                     </div>
+
+                                    {col.rule.type === GenerationStrategyType.LINKED && col.rule.config?.linkedTableId === activeTable.id && !(col.rule.config?.linkedSources || []).length && (() => {
+                                      const hierarchy = col.rule.config?.hierarchy || {};
+                                      const updateHierarchy = (updates: Partial<HierarchyConfig>) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, hierarchy: { ...hierarchy, ...updates } } });
+                                      return (
+                                        <div className="pt-2 mt-2 border-t border-slate-100">
+                                          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Hierarchy</label>
+                                          <div className="grid grid-cols-3 gap-2">
+                                            <div>
+                                              <label className="block text-[10px] text-slate-500 mb-0.5">Max Depth</label>
+                                              <input type="number" min={1} value={hierarchy.maxDepth ?? 5} onChange={(e) => updateHierarchy({ maxDepth: Math.max(1, parseInt(e.target.value) || 1) })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                            </div>
+                                            <div>
+                                              <label className="block text-[10px] text-slate-500 mb-0.5">Max Children</label>
+                                              <input type="number" min={1} value={hierarchy.branchingFactor ?? 5} onChange={(e) => updateHierarchy({ branchingFactor: Math.max(1, parseInt(e.target.value) || 1) })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                            </div>
+                                            <div>
+                                              <label className="block text-[10px] text-slate-500 mb-0.5">Roots %</label>
+                                              <input type="number" min={0} max={100} value={Math.round((hierarchy.rootRatio ?? 0.1) * 100)} onChange={(e) => updateHierarchy({ rootRatio: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100 })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                            </div>
+                                          </div>
+                                          <p className="text-[9px] text-slate-400 mt-1 italic">Rows only link to earlier rows, so the tree never contains a cycle. Roots are left empty.</p>
+                                        </div>
+                                      );
+                                    })()}
+
+                                    {col.rule.type === GenerationStrategyType.RANDOM_RECORD && (
+                                      <div className="pt-2 mt-2 border-t border-slate-100 space-y-1">
+                                        <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Record Selection</label>
+                                        <button 
+                                          onClick={() => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, withoutReplacement: !col.rule.config?.withoutReplacement } })}
+                                          className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors ${col.rule.config?.withoutReplacement ? 'bg-primary/10 text-primary' : 'hover:bg-slate-50 text-slate-600'}`}
+                                        >
+                                          {col.rule.config?.withoutReplacement ? <CheckSquare size={14} /> : <Square size={14} />}
+                                          <span>Without replacement (each record used once)</span>
+                                        </button>
+                                        <button 
+                                          onClick={() => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, preferThreadRecords: !col.rule.config?.preferThreadRecords } })}
+                                          className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors ${col.rule.config?.preferThreadRecords ? 'bg-primary/10 text-primary' : 'hover:bg-slate-50 text-slate-600'}`}
+                                        >
+                                          {col.rule.config?.preferThreadRecords ? <CheckSquare size={14} /> : <Square size={14} />}
+                                          <span>Prefer records from the current thread</span>
+                                        </button>
+                                      </div>
+                                    )}
                                   </div>
                                </div>
                             )}
@@ -2123,7 +2801,7 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                                 <div>
                                    <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Output Unit</label>
                                    <div className="flex p-1 bg-white border border-slate-200 rounded-lg w-fit">
-                                      {['Days', 'Hours'].map(u => (
+                                      {['Hours', 'Days', 'Weeks', 'Working Days'].map(u => (
                                          <button
                                             key={u}
                                             onClick={() => {
@@ -2144,14 +2822,45 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
                               </div>
                             )}
                             {col.type === DataType.MULTI_SELECT && (
-                              <div className="mt-4">
-                                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Delimiter</label>
-                                <input 
-                                  type="text" 
-                                  value={col.rule.config?.delimiter || '|'} 
-                                  onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, delimiter: e.target.value } })} 
-                                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" 
-                                />
+                              <div className="mt-4 space-y-3">
+                                <div>
+                                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Delimiter</label>
+                                  <input 
+                                    type="text" 
+                                    value={col.rule.config?.delimiter || '|'} 
+                                    onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, delimiter: e.target.value } })} 
+                                    className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-primary outline-none" 
+                                  />
+                                </div>
+                                {col.rule.type === GenerationStrategyType.RANDOM && (
+                                  <>
+                                    <div className="grid grid-cols-3 gap-2">
+                                      <div>
+                                        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Min Items</label>
+                                        <input type="number" min={0} value={col.rule.config?.minItems ?? 1} onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, minItems: parseInt(e.target.value) || 0 } })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                      </div>
+                                      <div>
+                                        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Max Items</label>
+                                        <input type="number" min={0} value={col.rule.config?.maxItems ?? 3} onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, maxItems: parseInt(e.target.value) || 0 } })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none" />
+                                      </div>
+                                      <div>
+                                        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Order</label>
+                                        <select value={col.rule.config?.itemOrder || 'random'} onChange={(e) => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, itemOrder: e.target.value as ItemOrder } })} className="w-full border border-slate-300 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-primary outline-none">
+                                          <option value="random">Random</option>
+                                          <option value="options">Option Order</option>
+                                          <option value="alphabetical">A → Z</option>
+                                        </select>
+                                      </div>
+                                    </div>
+                                    <button 
+                                      onClick={() => handleRuleChange(col.id, { ...col.rule, config: { ...col.rule.config, noDuplicateItems: !(col.rule.config?.noDuplicateItems ?? true) } })}
+                                      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors ${(col.rule.config?.noDuplicateItems ?? true) ? 'bg-primary/10 text-primary' : 'hover:bg-slate-50 text-slate-600'}`}
+                                    >
+                                      {(col.rule.config?.noDuplicateItems ?? true) ? <CheckSquare size={14} /> : <Square size={14} />}
+                                      <span>No duplicate items within a cell</span>
+                                    </button>
+                                  </>
+                                )}
                               </div>
                             )}
                          </div>
@@ -2168,9 +2877,12 @@ const RulesConfiguration = ({ tables, relationships, referenceFiles, onUpdateTab
 };
 
 // 6. Export Panel
-const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies, globalDateFormat, onUpdateGlobalDateFormat, globalStartDate, globalEndDate, onUpdateGlobalDates }: { tables: Table[], relationships: Relationship[], referenceFiles: ReferenceFile[], actors: Actor[], policies: LifecyclePolicy[], globalDateFormat: string, onUpdateGlobalDateFormat: (f: string) => void, globalStartDate: string, globalEndDate: string, onUpdateGlobalDates: (start: string, end: string) => void }) => {
+const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies, globalDateFormat, onUpdateGlobalDateFormat, globalStartDate, globalEndDate, globalSettings, onUpdateGlobalDates, generationSeed, onUpdateGenerationSeed }: { tables: Table[], relationships: Relationship[], referenceFiles: ReferenceFile[], actors: Actor[], policies: LifecyclePolicy[], globalDateFormat: string, onUpdateGlobalDateFormat: (f: string) => void, globalStartDate: string, globalEndDate: string, globalSettings: GlobalSettings, onUpdateGlobalDates: (start: string, end: string, settings: GlobalSettings) => void, generationSeed: string, onUpdateGenerationSeed: (seed: string, settings: GlobalSettings) => void }) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState("");
+  // Non-fatal problems reported by the last export
+  const [runWarnings, setRunWarnings] = useState<string[]>([]);
+  const [runError, setRunError] = useState<string | null>(null);
 
   // Basic validation check before generation
   const validationErrors = useMemo(() => {
@@ -2180,8 +2892,136 @@ const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies,
         errors.push(`Table "${t.name}" is missing its driving parent selection.`);
       }
     });
+    tables.forEach(t => {
+      const perParent = t.genSettings?.mode === 'per_parent';
+      const plannedRows = perParent ? (t.genSettings?.minPerParent || 1) : (t.genSettings?.fixedCount ?? 10);
+      if (!perParent) {
+        getUniqueConstraints(t).filter(key => key.length === 1).forEach(([colId]) => {
+          const c = t.columns.find(col => col.id === colId)!;
+          const space = getValueSpaceSize(c, referenceFiles);
+          if (space < plannedRows) {
+            errors.push(`"${t.name}.${c.name}" must be unique but can only produce ${space} distinct values for ${plannedRows} rows.`);
+          }
+        });
+      }
+      const junctionRel = relationships.find(r => r.cardinality === 'N:M' && r.junction?.junctionTableId === t.id);
+      if (junctionRel && perParent) {
+        errors.push(`Junction table "${t.name}" must use a fixed row count; its rows come from the N:M relationship.`);
+      }
+      const junctionError = junctionRel && getJunctionError(t, junctionRel, tables);
+      if (junctionError) errors.push(junctionError);
+      if (t.tableType === 'Relationship' && !perParent && !junctionRel) {
+        // Only checkable up front when every linked table has a fixed row count
+        const groups = new Map<string, string[]>();
+        t.columns.filter(c => c.rule.type === GenerationStrategyType.LINKED).forEach(c => {
+          const ids = getLinkCandidates(c).map(cand => cand.tableId).sort();
+          if (ids.length > 0) groups.set(ids.join(','), ids);
+        });
+        const linkedGroups = Array.from(groups.values()).map(ids => ids.map(id => tables.find(lt => lt.id === id)));
+        if (linkedGroups.length > 0 && linkedGroups.every(group => group.every(lt => lt && lt.genSettings?.mode !== 'per_parent'))) {
+          const sizes = linkedGroups.map(group => group.reduce((n, lt) => n + (lt!.genSettings?.fixedCount ?? 10), 0));
+          const combinations = sizes.reduce((a, b) => a * b, 1);
+          if (plannedRows > combinations) {
+            errors.push(`Relationship table "${t.name}" requests ${plannedRows} rows but only ${combinations} distinct link combinations exist.`);
+          }
+          (t.genSettings?.coverLinkedTableIds || []).forEach(id => {
+            const covered = tables.find(lt => lt.id === id);
+            if (covered && covered.genSettings?.mode !== 'per_parent' && (covered.genSettings?.fixedCount ?? 10) > plannedRows) {
+              errors.push(`Relationship table "${t.name}" needs at least ${covered.genSettings?.fixedCount ?? 10} rows to link every "${covered.name}" row.`);
+            }
+          });
+        }
+      }
+      const rowRange = perParent 
+        ? { min: t.genSettings?.minPerParent || 1, max: t.genSettings?.maxPerParent || 3 } 
+        : { min: plannedRows, max: plannedRows };
+      const quotaRanges = t.columns.map(c => getQuotaRowRange(c, referenceFiles));
+      t.columns.forEach((c, i) => {
+        const quotaRange = quotaRanges[i];
+        const anchorError = getQuotaAnchorError(c, t, referenceFiles);
+        if (anchorError) {
+          errors.push(anchorError);
+        } else if (quotaRange.min > rowRange.max) {
+          errors.push(`Quotas for "${t.name}.${c.name}" need ${quotaRange.min} rows but ${perParent ? 'a parent gets at most' : 'the table has'} ${rowRange.max}.`);
+        } else if (quotaRange.max < rowRange.min) {
+          errors.push(`Quotas for "${t.name}.${c.name}" cover every value with ${quotaRange.max} rows but ${perParent ? 'each parent gets at least' : 'the table has'} ${rowRange.min}. Leave a value without a quota or allow empty cells.`);
+        }
+      });
+      const quotaNeed = Math.max(0, ...quotaRanges.map(r => r.min));
+      const quotaCap = Math.min(Infinity, ...quotaRanges.map(r => r.max));
+      if (quotaNeed > quotaCap && quotaNeed <= rowRange.max && quotaCap >= rowRange.min) {
+        errors.push(`Quotas in "${t.name}" conflict: one column needs ${quotaNeed} rows but another covers every value with ${quotaCap}.`);
+      }
+      t.columns.forEach(c => {
+        const rules = [c.rule, ...(c.rule.config?.branches || []).map(b => b.rule), ...(c.rule.config?.defaultRule ? [c.rule.config.defaultRule] : [])];
+        rules.filter(rule => rule.type === GenerationStrategyType.FORMULA).forEach(rule => {
+          const error = getFormulaError(rule.config?.formula || '', c, t, tables);
+          if (error) errors.push(`Formula for "${t.name}.${c.name}": ${error}`);
+        });
+        rules.filter(rule => rule.type === GenerationStrategyType.TEMPLATE).forEach(rule => {
+          const error = getTemplateError(rule.config?.template || '', c, t, tables);
+          if (error) errors.push(`Template for "${t.name}.${c.name}": ${error}`);
+        });
+      });
+      t.columns.filter(c => c.rule.type === GenerationStrategyType.CONDITIONAL && (c.rule.config?.branches || []).some(b => !b.when.columnId)).forEach(c => {
+        errors.push(`"${t.name}.${c.name}" has a conditional branch without a column to test.`);
+      });
+      t.columns.filter(c => c.isPrimaryKey && (c.rule.config?.nullRate || c.rule.config?.emptyUnless?.values.some(Boolean))).forEach(c => {
+        errors.push(`"${t.name}.${c.name}" is part of the primary key and cannot be left empty.`);
+      });
+      try {
+        orderColumnsForRow(t, tables);
+      } catch (e) {
+        errors.push((e as Error).message);
+      }
+    });
+    analyzeTableDependencies(tables, globalSettings.twoPass).cycles.forEach(cycle => {
+      errors.push(`Circular table dependency: ${cycle.join(' → ')}. ${globalSettings.twoPass ? 'No column in it can be back-filled; change one of its date or key references.' : 'Break the cycle or enable two-pass links.'}`);
+    });
+    if (globalStartDate > globalEndDate) {
+      errors.push(`Project horizon starts (${globalStartDate}) after it ends (${globalEndDate}).`);
+    }
     return errors;
-  }, [tables]);
+  }, [tables, relationships, referenceFiles, globalStartDate, globalEndDate, globalSettings.twoPass]);
+
+  // Non-blocking checks: generation still runs, but the output may not be what the schema suggests
+  const validationWarnings = useMemo(() => {
+    const warnings: string[] = [];
+    const plannedRows = (t: Table) => t.genSettings?.mode === 'per_parent' ? undefined : (t.genSettings?.fixedCount ?? 10);
+    relationships.filter(r => r.cardinality === '1:1').forEach(r => {
+      const child = tables.find(t => t.id === r.sourceTableId);
+      const parent = tables.find(t => t.id === r.targetTableId);
+      if (!child || !parent) return;
+      const childRows = plannedRows(child);
+      const parentRows = plannedRows(parent);
+      if (childRows !== undefined && parentRows !== undefined && childRows > parentRows) {
+        warnings.push(`1:1 link "${child.name}" → "${parent.name}": ${childRows} rows for ${parentRows} parents; ${childRows - parentRows} rows will have no parent (NOT_FOUND).`);
+      }
+    });
+    if (globalSettings.twoPass) {
+      analyzeTableDependencies(tables, true).deferredColumnIds.forEach(colId => {
+        const t = tables.find(tbl => tbl.columns.some(c => c.id === colId))!;
+        warnings.push(`"${t.name}.${t.columns.find(c => c.id === colId)!.name}" closes a table cycle; it is back-filled after all tables are generated.`);
+      });
+    }
+    return warnings;
+  }, [tables, relationships, globalSettings.twoPass]);
+
+  // Table order the generator will follow, root tables first, each followed by the tables it drives
+  const generationPlan = useMemo(() => getGenerationPlan(tables, globalSettings.twoPass), [tables, globalSettings.twoPass]);
+
+  // "Now" for pinned runs, as the generator resolves it
+  const pinnedNow = resolveReferenceDate(globalStartDate || '2024-01-01', globalEndDate || '2026-12-31', globalSettings.referenceDate);
+
+  // A seed pins "now" as well; the first one stores today's date (within the horizon) as the reference
+  const handleSeedChange = (seed: string) => onUpdateGenerationSeed(seed, seed.trim() && !globalSettings.referenceDate
+    ? { ...globalSettings, referenceDate: resolveReferenceDate(globalStartDate, globalEndDate, new Date().toISOString().split('T')[0]) }
+    : globalSettings);
+
+  const handlePresetChange = (preset: GlobalSettings['preset']) => {
+    const range = resolvePresetRange(preset);
+    onUpdateGlobalDates(range?.startDate || globalStartDate, range?.endDate || globalEndDate, { ...globalSettings, preset });
+  };
 
   const handleGenerate = async () => {
     if (validationErrors.length > 0) {
@@ -2191,21 +3031,35 @@ const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies,
 
     setIsGenerating(true);
     setProgress("Starting...");
+    setRunWarnings([]);
+    setRunError(null);
 
     try {
       // SURGICAL FIX: We use 'policies' directly from the component props
       // and pass it as the final argument to the generator service.
-      await generateAndDownload(
+      const warnings = await generateAndDownload(
         tables,
         relationships,
         referenceFiles,
         globalDateFormat,
         setProgress,
-        policies 
+        policies,
+        { 
+          seed: generationSeed,
+          startDate: globalStartDate,
+          endDate: globalEndDate,
+          preset: globalSettings.preset,
+          dynamicNow: globalSettings.dynamicNow,
+          referenceDate: globalSettings.referenceDate,
+          twoPass: globalSettings.twoPass
+        }
       );
+      setRunWarnings(warnings);
     } catch (e) {
       console.error("Generation failed:", e);
-      setProgress("Error occurred during generation.");
+      // Kept until the next run; the progress line is cleared below
+      setRunError(e instanceof Error ? e.message : "Error occurred during generation.");
+      setProgress("Generation failed.");
     } finally {
       // Clear the loading state after a short delay so the user sees the 'Done' message
       setTimeout(() => {
@@ -2235,6 +3089,7 @@ const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies,
           type: c.type,
           description: c.description || "",
           example: c.sampleValues?.[0] || "",
+          nullable: !!(c.rule.config?.nullRate || c.rule.config?.emptyUnless?.values.some(Boolean)),
           is_lookup: c.rule.type === GenerationStrategyType.RANDOM_RECORD,
           lookup_source: c.rule.type === GenerationStrategyType.RANDOM_RECORD ? {
             table: tables.find(st => st.id === c.rule.config?.linkedTableId)?.name || "Unknown",
@@ -2268,7 +3123,10 @@ const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies,
             table: tgtTable?.name || r.targetTableId,
             column: tgtCol?.name || r.targetColumnId
           },
-          cardinality: r.cardinality
+          cardinality: r.cardinality,
+          junctionTable: r.cardinality === 'N:M' 
+            ? (tables.find(t => t.id === r.junction?.junctionTableId)?.name || `${getJunctionFileName(r, tables)} (generated)`) 
+            : undefined
         };
       }),
       dataSamples: tables.reduce((acc, t) => {
@@ -2294,13 +3152,23 @@ const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies,
          
          <div className="mb-4 p-4 bg-blue-50 border border-blue-100 rounded-xl text-left">
            <label className="block text-xs font-bold text-blue-500 uppercase mb-2">Project Horizon (Global Range)</label>
+            <select
+              value={globalSettings.preset || 'Custom'}
+              onChange={(e) => handlePresetChange(e.target.value as GlobalSettings['preset'])}
+              className="w-full border rounded-lg px-2 py-1 text-sm mb-3 bg-white"
+            >
+              <option value="Custom">Custom Range</option>
+              <option value="Last 3 Years">Last 3 Years</option>
+              <option value="Current Year">Current Year</option>
+              <option value="Next Year">Next Year</option>
+            </select>
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <span className="text-[10px] text-slate-400">Start Date</span>
                 <input 
                   type="date" 
                   value={globalStartDate || '2024-01-01'} 
-                  onChange={(e) => onUpdateGlobalDates(e.target.value, globalEndDate)}
+                  onChange={(e) => onUpdateGlobalDates(e.target.value, globalEndDate, { ...globalSettings, preset: 'Custom' })}
                   className="w-full border rounded-lg px-2 py-1 text-sm"
                 />
               </div>
@@ -2309,11 +3177,89 @@ const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies,
                 <input 
                   type="date" 
                   value={globalEndDate || '2026-12-31'} 
-                  onChange={(e) => onUpdateGlobalDates(globalStartDate, e.target.value)}
+                  onChange={(e) => onUpdateGlobalDates(globalStartDate, e.target.value, { ...globalSettings, preset: 'Custom' })}
                   className="w-full border rounded-lg px-2 py-1 text-sm"
                 />
               </div>
             </div>
+            <label className="flex items-center gap-2 mt-3 text-xs text-slate-600 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={!generationSeed.trim() && (globalSettings.dynamicNow ?? true)}
+                disabled={!!generationSeed.trim()}
+                onChange={(e) => onUpdateGlobalDates(globalStartDate, globalEndDate, {
+                  ...globalSettings,
+                  dynamicNow: e.target.checked,
+                  // Pinning starts from today, kept inside the horizon
+                  referenceDate: e.target.checked ? globalSettings.referenceDate : resolveReferenceDate(globalStartDate || '2024-01-01', globalEndDate || '2026-12-31', new Date().toISOString().split('T')[0])
+                })}
+                className="w-3.5 h-3.5 text-primary rounded border-slate-300 focus:ring-primary"
+              />
+              Dynamic "Now" (follow the run date){generationSeed.trim() ? ' — off while a seed is set' : ''}
+            </label>
+            {(generationSeed.trim() || !(globalSettings.dynamicNow ?? true)) && (
+              <div className="mt-2">
+                <span className="text-[10px] text-slate-400">Pinned "Now"</span>
+                <input 
+                  type="date" 
+                  value={pinnedNow} 
+                  min={globalStartDate}
+                  max={globalEndDate}
+                  onChange={(e) => onUpdateGlobalDates(globalStartDate, globalEndDate, { ...globalSettings, referenceDate: e.target.value || undefined })}
+                  className="w-full border rounded-lg px-2 py-1 text-sm"
+                />
+              </div>
+            )}
+            <p className="text-[10px] text-slate-400 mt-1 italic">
+              {generationSeed.trim()
+                ? `A random seed is set, so "Now" is pinned to ${pinnedNow} and the dates above are used as shown.`
+                : (globalSettings.dynamicNow ?? true)
+                  ? "Presets are re-resolved against the run date on every export."
+                  : `"Now" is pinned to ${pinnedNow}, so reruns produce the same dates.`}
+            </p>
+         </div>
+
+         <div className="mb-4 p-4 bg-slate-50 border border-slate-200 rounded-xl text-left">
+           <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+             <Hash size={12} /> Random Seed
+           </label>
+           <div className="flex gap-2">
+             <input
+               type="text"
+               value={generationSeed}
+               placeholder="Leave empty for a fresh dataset every run"
+               onChange={(e) => handleSeedChange(e.target.value)}
+               className="flex-1 border border-slate-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-primary outline-none bg-white"
+             />
+             <button
+               onClick={() => handleSeedChange(Math.floor(Math.random() * 1e9).toString(36))}
+               className="px-3 py-2 bg-white border border-slate-300 text-slate-600 rounded-lg text-xs font-medium hover:bg-slate-50"
+               title="Pick a new random seed"
+             >
+               <Wand2 size={14} />
+             </button>
+           </div>
+           <p className="text-[10px] text-slate-400 mt-2 italic">Same project + same seed produces identical CSVs. A seed also pins "Now" to {pinnedNow} (see Project Horizon). AI columns are not reproducible.</p>
+         </div>
+
+         <div className="mb-4 p-4 bg-slate-50 border border-slate-200 rounded-xl text-left">
+           <label className="block text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1">
+             <Network size={12} /> Table Cycles
+           </label>
+           <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer select-none">
+             <input
+               type="checkbox"
+               checked={globalSettings.twoPass ?? false}
+               onChange={(e) => onUpdateGlobalDates(globalStartDate, globalEndDate, { ...globalSettings, twoPass: e.target.checked })}
+               className="w-3.5 h-3.5 text-primary rounded border-slate-300 focus:ring-primary"
+             />
+             Two-pass links (back-fill cyclic foreign keys)
+           </label>
+           <p className="text-[10px] text-slate-400 mt-1 italic">
+             {globalSettings.twoPass
+               ? "Tables that reference each other are generated first; the link closing each cycle is filled in afterwards."
+               : "Tables that reference each other in a cycle block generation."}
+           </p>
          </div>
 
          <div className="mb-8 p-4 bg-slate-50 border border-slate-200 rounded-xl text-left">
@@ -2346,6 +3292,58 @@ const ExportPanel = ({ tables, relationships, referenceFiles, actors, policies,
            </div>
          )}
 
+         {runError && (
+           <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-xl text-left">
+             <div className="flex items-center gap-2 text-red-700 font-bold text-sm mb-2">
+                <AlertCircle size={16} /> Last Export Failed
+             </div>
+             <p className="text-xs text-red-600">{runError}</p>
+           </div>
+         )}
+
+         {(validationWarnings.length > 0 || runWarnings.length > 0) && (
+           <div className="mb-8 p-4 bg-amber-50 border border-amber-200 rounded-xl text-left">
+             <div className="flex items-center gap-2 text-amber-700 font-bold text-sm mb-2">
+                <AlertCircle size={16} /> Warnings
+             </div>
+             {validationWarnings.length > 0 && (
+               <ul className="text-xs text-amber-600 list-disc pl-4 space-y-1">
+                 {validationWarnings.map((w, i) => <li key={i}>{w}</li>)}
+               </ul>
+             )}
+             {runWarnings.length > 0 && (
+               <>
+                 <div className={`text-[10px] font-bold text-amber-700 uppercase mb-1 ${validationWarnings.length > 0 ? 'mt-3' : ''}`}>From the last export</div>
+                 <ul className="text-xs text-amber-600 list-disc pl-4 space-y-1">
+                   {runWarnings.map((w, i) => <li key={i}>{w}</li>)}
+                 </ul>
+               </>
+             )}
+           </div>
+         )}
+
+         {validationErrors.length === 0 && generationPlan.length > 0 && (
+           <div className="mb-8 p-4 bg-slate-50 border border-slate-200 rounded-xl text-left">
+             <div className="flex items-center gap-2 text-slate-500 font-bold text-xs uppercase mb-2">
+                <Layers size={12} /> Generation Plan
+             </div>
+             <ol className="text-xs text-slate-600 space-y-1">
+               {generationPlan.map(({ table, depth }, i) => (
+                 <li key={i} className="flex items-center gap-2" style={{ paddingLeft: depth * 16 }}>
+                   {depth > 0 ? <ChevronRight size={12} className="text-slate-400" /> : <span className="w-4 text-right font-mono text-slate-400">{generationPlan.slice(0, i + 1).filter(step => step.depth === 0).length}.</span>}
+                   <span className="font-medium text-slate-700">{table.name}</span>
+                   <span className="text-slate-400">
+                     {table.genSettings?.mode === 'per_parent' 
+                       ? `${table.genSettings.minPerParent || 1}–${table.genSettings.maxPerParent || 3} per parent` 
+                       : `${table.genSettings?.fixedCount ?? 10} rows`}
+                   </span>
+                   {!!table.generationPriority && <span className="px-1.5 py-0.5 bg-blue-50 text-blue-600 rounded text-[10px] font-bold">priority {table.generationPriority}</span>}
+                 </li>
+               ))}
+             </ol>
+           </div>
+         )}
+
          {isGenerating ? <div className="space-y-4"><div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden"><div className="h-full bg-primary animate-progress origin-left w-full"></div></div><p className="text-sm font-medium text-slate-600 animate-pulse">{progress}</p></div> :
          <div className="flex flex-col gap-3">
             <button
@@ -2636,7 +3634,10 @@ const Editor = ({ project, onSave, onBack }: { project: Project, onSave: (p: Pro
           // PASS THE NEW PROPS HERE:
           globalStartDate={localProject.state.globalStartDate || '2024-01-01'}
           globalEndDate={localProject.state.globalEndDate || '2026-12-31'}
-          onUpdateGlobalDates={(start, end) => handleUpdate({ state: { ...localProject.state, globalStartDate: start, globalEndDate: end } })}
+          globalSettings={localProject.state.globalSettings || {}}
+          onUpdateGlobalDates={(start, end, settings) => handleUpdate({ state: { ...localProject.state, globalStartDate: start, globalEndDate: end, globalSettings: settings } })}
+          generationSeed={localProject.state.generationSeed || ''}
+          onUpdateGenerationSeed={(seed, settings) => handleUpdate({ state: { ...localProject.state, generationSeed: seed, globalSettings: settings } })}
         />
       );
 
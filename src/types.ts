@@ -22,7 +22,11 @@ export enum GenerationStrategyType {
   DATE = 'Date Logic',
   RANDOM_RECORD = 'Random Record from Table',
   LIFECYCLE_DATE = 'Lifecycle Date',
-  LIFECYCLE_DURATION = 'Lifecycle Duration'
+  LIFECYCLE_DURATION = 'Lifecycle Duration',
+  NUMERIC = 'Numeric Distribution',
+  CONDITIONAL = 'Conditional (If / Else)',
+  FORMULA = 'Formula (Computed)',
+  TEMPLATE = 'Template (Text)'
 }
 
 export interface ReferenceFile {
@@ -43,12 +47,76 @@ export interface DateLogicConfig {
   maxOffset?: number;
 }
 
+export type NumericDistribution = 'uniform' | 'normal' | 'lognormal' | 'exponential' | 'poisson';
+
+export interface NumericConfig {
+  min: number;
+  max: number;
+  distribution: NumericDistribution;
+  precision?: number; // Decimal places (always 0 for INTEGER columns)
+  step?: number; // Values snap to min + k * step
+  mean?: number; // Centre for normal/lognormal, mean for exponential/poisson. Defaults from min/max
+  stdDev?: number; // Spread for normal/lognormal
+}
+
+// Tree shape for a LINKED column that points at its own table (manager_id, parent_category_id)
+export interface HierarchyConfig {
+  maxDepth?: number; // Levels, roots included
+  branchingFactor?: number; // Max direct children per row
+  rootRatio?: number; // Share of rows (0-1) without a parent
+}
+
+export interface RelativeDateConfig {
+  sourceColumnId: string;
+  minDays: number;
+  maxDays: number;
+  direction: 'before' | 'after';
+  isLinkedSource?: boolean; // Source column lives on the linked parent row
+}
+
+// Same-row condition under which a column keeps its generated value (e.g. closedDate only when status = Closed)
+export interface EmptinessCondition {
+  columnId: string;
+  values: string[]; // The cell is empty unless the column holds one of these
+}
+
+export type PredicateOperator = 'equals' | 'notEquals' | 'in' | 'notIn' | 'greaterThan' | 'lessThan' | 'isEmpty' | 'isNotEmpty';
+
+// Test on a same-row column, or on the linked parent row when tableId names another table
+export interface ColumnPredicate {
+  tableId?: string;
+  columnId: string;
+  operator: PredicateOperator;
+  value?: string; // Comma separated for in / notIn
+}
+
+export interface ConditionalBranch {
+  when: ColumnPredicate;
+  rule: GenerationRule;
+}
+
+export type CopyMode = 'random' | 'sequential';
+
+export type ItemOrder = 'random' | 'options' | 'alphabetical';
+
+export type RevisionMode = 'history' | 'latest';
+
 export interface GenerationRule {
   type: GenerationStrategyType;
   config?: {
     pattern?: string;
     options?: string[];
+    optionWeights?: Record<string, number>; // RANDOM / lifecycle status: relative weight per option (missing = 1)
+    quotas?: Record<string, number>; // RANDOM/REFERENCE: exact row count per value (per parent in 'per_parent' tables)
     delimiter?: string;
+    copyMode?: CopyMode; // COPY: resample by frequency or cycle through samples in order
+    dedupe?: boolean; // COPY: sample from distinct values only
+    minItems?: number; // MULTI_SELECT: items per cell
+    maxItems?: number;
+    itemOrder?: ItemOrder;
+    noDuplicateItems?: boolean; // MULTI_SELECT: an option appears at most once per cell (default true)
+    revisionMode?: RevisionMode; // REVISION: consecutive revisions per group, or one latest revision
+    revisionIdentityColumnId?: string; // REVISION: rows sharing this column's value are versions of one object
     aiPrompt?: string;
     dependentColumnIds?: string[];
     referenceFileId?: string;
@@ -59,18 +127,24 @@ export interface GenerationRule {
     dateFormat?: string;
     dateLogic?: DateLogicConfig;
     label?: string;
+    withoutReplacement?: boolean; // RANDOM_RECORD: each source row is drawn at most once
+    preferThreadRecords?: boolean; // RANDOM_RECORD: draw from rows in the current thread first
     linkedSources?: {
       tableId: string;
       columnId: string;
       joinKey?: string;
     }[];
-    relativeDateConfig?: {
-      sourceColumnId: string;
-      minDays: number;
-      maxDays: number;
-      direction: 'before' | 'after';
-      isLinkedSource?: boolean;
-    };
+    relativeDateConfig?: RelativeDateConfig;
+    numeric?: NumericConfig; // NUMERIC: range, precision and distribution
+    hierarchy?: HierarchyConfig; // LINKED to its own table: depth, branching and roots of the tree
+    nullRate?: number; // Share of rows (0-1) left empty
+    emptyAs?: 'empty' | 'null'; // Empty cells are written as "" (default) or the literal NULL
+    emptyUnless?: EmptinessCondition;
+    branches?: ConditionalBranch[]; // CONDITIONAL: the first branch whose predicate holds supplies the rule
+    defaultRule?: GenerationRule; // CONDITIONAL: used when no branch matches (Copy when omitted)
+    formula?: string; // FORMULA: expression over same-row and Table.column parent values, e.g. quantity * unitPrice
+    template?: string; // TEMPLATE: text with {column|transform} placeholders, e.g. {first|lower}.{last|lower}@acme.com
+    templateFallback?: boolean; // TEMPLATE: use a sample value when a placeholder is empty
     // Duration specific fields
     startTableId?: string;
     startColId?: string;
@@ -86,6 +160,7 @@ export interface TableGenerationSettings {
   minPerParent?: number;
   maxPerParent?: number;
   drivingParentTableId?: string;
+  coverLinkedTableIds?: string[]; // Relationship tables: every row of these linked tables appears in at least one link
 }
 
 export interface Actor {
@@ -115,6 +190,7 @@ export interface Column {
   revisionSchema?: string;
   description?: string; 
   isPrimaryKey?: boolean;
+  isUnique?: boolean; // Values must not repeat within the table
 }
 
 export interface Table {
@@ -128,6 +204,7 @@ export interface Table {
   permissions?: TablePermission[];
   lifecyclePolicyId?: string;
   generationPriority?: number;
+  uniqueKeys?: string[][]; // Column ID sets whose combined values must not repeat
   ui?: {
     x: number;
     y: number;
@@ -140,6 +217,15 @@ export interface Table {
 
 export type Cardinality = '1:1' | '1:N' | 'N:M';
 
+// How an N:M relationship is materialised as link rows
+export interface JunctionSettings {
+  junctionTableId?: string; // Existing Relationship-type table to fill; omitted = a junction CSV is added to the export
+  minPerSource?: number; // Links per source row
+  maxPerSource?: number;
+  minPerTarget?: number; // Links per target row
+  maxPerTarget?: number;
+}
+
 export interface Relationship {
   id: string;
   sourceTableId: string;
@@ -147,6 +233,8 @@ export interface Relationship {
   targetTableId: string;
   targetColumnId: string;
   cardinality: Cardinality;
+  junction?: JunctionSettings; // N:M only
+  unmatchedParentRate?: number; // 1:1 only: share of parent rows (0-1) that get no child in 'per_parent' tables
 }
 
 export interface GlobalSettings {
@@ -154,6 +242,8 @@ export interface GlobalSettings {
   endDate?: string;
   preset?: 'Last 3 Years' | 'Current Year' | 'Next Year' | 'Custom';
   dynamicNow?: boolean;
+  referenceDate?: string; // "Now" (YYYY-MM-DD) when it does not follow the run date
+  twoPass?: boolean; // Back-fill the foreign keys that close table cycles after a first pass
 }
 
 export interface LifecycleState {
@@ -180,6 +270,7 @@ export interface ProjectState {
   canvasScroll?: { x: number; y: number };
   globalStartDate?: string;
   globalEndDate?: string;
+  generationSeed?: string;
 }
 
 export interface Project {